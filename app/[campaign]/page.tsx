@@ -0,0 +1,15 @@
+import { notFound } from 'next/navigation'
+import LotteryPage from '@/components/LotteryPage'
+import { getCampaign } from '@/lib/campaigns'
+
+// Campaigns live in the server-side store, so render on request
+export const dynamic = 'force-dynamic'
+
+export default async function CampaignPage({ params }: { params: Promise<{ campaign: string }> }) {
+  const { campaign: slug } = await params
+  const campaign = await getCampaign(slug)
+
+  if (!campaign) notFound()
+
+  return <LotteryPage tokenMint={campaign.tokenMint} title={campaign.prize ?? campaign.name} campaign={campaign} />
+}
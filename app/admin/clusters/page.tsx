@@ -0,0 +1,181 @@
+'use client'
+
+import { useState } from 'react'
+
+interface ClusterReview {
+  status: 'confirmed' | 'dismissed'
+  note?: string
+  reviewedBy: string
+  reviewedAt: number
+}
+
+interface WalletCluster {
+  id: string
+  wallets: string[]
+  signals: Array<{ type: 'funder' | 'sender' | 'linked'; source?: string }>
+  totalTickets?: number
+  cappedTickets?: number
+  review?: ClusterReview
+}
+
+const SIGNAL_LABELS = {
+  funder: 'Funded by',
+  sender: 'Received tokens from',
+  linked: 'Declared linked wallets',
+}
+
+/**
+ * Admin review of wallet clusters flagged by the latest analysis
+ */
+export default function ClusterReviewPage() {
+  const [adminKey, setAdminKey] = useState('')
+  const [reviewer, setReviewer] = useState('')
+  const [tokenMint, setTokenMint] = useState('')
+  const [clusters, setClusters] = useState<WalletCluster[] | null>(null)
+  const [analyzedAt, setAnalyzedAt] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const headers = () => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${adminKey}` })
+
+  const loadClusters = async () => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/clusters?tokenMint=${encodeURIComponent(tokenMint.trim())}`, { headers: headers() })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'Failed to load clusters')
+
+      setClusters(json.clusters)
+      setAnalyzedAt(json.analyzedAt)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const review = async (id: string, status: ClusterReview['status']) => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/clusters/${id}/review`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ status, reviewedBy: reviewer.trim() }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'Failed to save review')
+
+      setClusters(current => current?.map(c => (c.id === id ? { ...c, review: json } : c)) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-4xl mx-auto px-4 py-12">
+        <h1 className="text-3xl font-bold mb-2">
+          Cluster <span className="text-emerald-400">Review</span>
+        </h1>
+        <p className="text-zinc-400 mb-8">
+          Wallets that look like one holder. Dismissed clusters are treated as separate holders from the next analysis on.
+        </p>
+
+        <div className="bg-zinc-900 rounded-xl p-6 mb-8 border border-zinc-800 space-y-3">
+          <input
+            type="password"
+            value={adminKey}
+            onChange={e => setAdminKey(e.target.value)}
+            placeholder="Admin API key"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white"
+          />
+          <input
+            type="text"
+            value={reviewer}
+            onChange={e => setReviewer(e.target.value)}
+            placeholder="Your name (recorded with each review)"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white"
+          />
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={tokenMint}
+              onChange={e => setTokenMint(e.target.value)}
+              placeholder="Token mint"
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white font-mono text-sm"
+            />
+            <button
+              onClick={loadClusters}
+              disabled={!adminKey || !tokenMint.trim()}
+              className="bg-emerald-500 hover:bg-emerald-400 disabled:bg-zinc-700 text-black font-semibold px-6 py-2 rounded-lg"
+            >
+              Load
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-500 rounded-lg p-4 mb-8 text-red-200">
+            {error}
+          </div>
+        )}
+
+        {clusters && (
+          <div className="space-y-4">
+            <div className="text-sm text-zinc-500">
+              {clusters.length} flagged clusters
+              {analyzedAt && ` - analyzed ${new Date(analyzedAt).toLocaleString()}`}
+            </div>
+            {clusters.map(cluster => (
+              <div key={cluster.id} className="bg-zinc-900 rounded-xl p-6 border border-zinc-800">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="font-mono text-sm text-zinc-400">{cluster.id}</div>
+                    <div className="text-white font-semibold">
+                      {cluster.wallets.length} wallets
+                      {cluster.totalTickets !== undefined && (
+                        <span className="text-zinc-400 font-normal">
+                          {' '}- {cluster.totalTickets.toLocaleString()} tickets
+                          {cluster.cappedTickets !== cluster.totalTickets && ` (${cluster.cappedTickets?.toLocaleString()} after cap)`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {cluster.review && (
+                    <span className={cluster.review.status === 'dismissed' ? 'text-zinc-400 text-sm' : 'text-red-400 text-sm'}>
+                      {cluster.review.status} by {cluster.review.reviewedBy}
+                    </span>
+                  )}
+                </div>
+                <ul className="text-sm text-zinc-300 mb-3">
+                  {cluster.signals.map((signal, i) => (
+                    <li key={i}>
+                      {SIGNAL_LABELS[signal.type]}
+                      {signal.source && <span className="font-mono text-zinc-400"> {signal.source}</span>}
+                    </li>
+                  ))}
+                </ul>
+                <ul className="font-mono text-xs text-zinc-400 mb-4 break-all">
+                  {cluster.wallets.map(wallet => <li key={wallet}>{wallet}</li>)}
+                </ul>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => review(cluster.id, 'confirmed')}
+                    disabled={!reviewer.trim()}
+                    className="bg-red-500/80 hover:bg-red-500 disabled:bg-zinc-700 text-white text-sm px-4 py-1 rounded-lg"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    onClick={() => review(cluster.id, 'dismissed')}
+                    disabled={!reviewer.trim()}
+                    className="bg-zinc-700 hover:bg-zinc-600 text-white text-sm px-4 py-1 rounded-lg"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
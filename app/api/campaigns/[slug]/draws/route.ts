@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { getCampaign } from '@/lib/campaigns'
+import { createDraw, listDraws } from '@/lib/draws'
+import { validatePrizeTiers } from '@/lib/lottery'
+
+/**
+ * List a campaign's draws (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const draws = await listDraws(slug)
+    return NextResponse.json({ draws })
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a draft draw for the campaign's token
+ * Prize tiers default to the campaign's
+ * Body: { announcementUrl?, prizeTiers?, removal?: 'wallet' | 'ticket' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { slug } = await params
+    const body = await request.json().catch(() => ({}))
+    const { announcementUrl, removal } = body
+
+    const campaign = await getCampaign(slug)
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const prizeTiers = body.prizeTiers ?? campaign.prizeTiers
+    if (prizeTiers !== undefined) {
+      const error = validatePrizeTiers(prizeTiers)
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+    }
+
+    if (removal !== undefined && removal !== 'wallet' && removal !== 'ticket') {
+      return NextResponse.json({ error: "removal must be 'wallet' or 'ticket'" }, { status: 400 })
+    }
+
+    const draw = await createDraw(campaign.tokenMint, { campaign: slug, announcementUrl, prizeTiers, removal })
+    return NextResponse.json(draw)
+
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { removeManualExclusion } from '@/lib/exclusions'
+
+/**
+ * Remove a manual exclude/allow entry
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; address: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { slug, address } = await params
+    const removed = await removeManualExclusion(slug, address)
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ removed: address })
+
+  } catch (error) {
+    console.error('[exclusions] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { getCampaign } from '@/lib/campaigns'
+import { addManualExclusion, listManualExclusions } from '@/lib/exclusions'
+import { decodeBase58 } from '@/lib/lottery'
+
+/**
+ * A campaign's manual exclude/allow entries
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const exclusions = await listManualExclusions(slug)
+    return NextResponse.json({ exclusions })
+  } catch (error) {
+    console.error('[exclusions] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Exclude an address from a campaign, or with allow: true keep it in
+ * even if it is detected as an LP or program
+ * Body: { address, reason, addedBy, allow? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { slug } = await params
+    const body = await request.json()
+    const { address, reason, addedBy, allow } = body
+
+    if (!(await getCampaign(slug))) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    let validAddress = false
+    try {
+      validAddress = typeof address === 'string' && decodeBase58(address).length === 32
+    } catch {
+      // Invalid base58
+    }
+    if (!validAddress) {
+      return NextResponse.json({ error: 'address must be a Solana address' }, { status: 400 })
+    }
+
+    if (typeof reason !== 'string' || !reason || typeof addedBy !== 'string' || !addedBy) {
+      return NextResponse.json({ error: 'reason and addedBy are required' }, { status: 400 })
+    }
+
+    const entry = await addManualExclusion(slug, { address, reason, addedBy, allow: allow === true || undefined })
+    return NextResponse.json(entry)
+
+  } catch (error) {
+    console.error('[exclusions] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { getCampaign } from '@/lib/campaigns'
+import { requestAnalysis, runQueuedJobs } from '@/lib/jobs'
+import { incompleteFetchError, sellCheckEnabled } from '@/lib/pipeline'
+import { pickWinner } from '@/lib/lottery'
+
+export const maxDuration = 300 // 5 minutes for the queued analysis
+
+/**
+ * A campaign's analysis (with its rules and exclusions) from the results
+ * cache, queueing a job to refresh it once it is stale - see /api/lottery
+ * (checkSells overrides need admin auth)
+ * Body: { action?: 'analyze' | 'pick', checkSells?, resume? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const body = await request.json().catch(() => ({}))
+    const { action, checkSells, resume } = body
+
+    const campaign = await getCampaign(slug)
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const sellCheck = typeof checkSells === 'boolean' ? checkSells : sellCheckEnabled()
+    if (sellCheck !== sellCheckEnabled()) {
+      const unauthorized = requireAdmin(request)
+      if (unauthorized) return unauthorized
+    }
+
+    const { cached, job } = await requestAnalysis({
+      tokenMint: campaign.tokenMint,
+      campaign: campaign.slug,
+      checkSells: sellCheck,
+      resume: resume === true,
+    })
+    if (job) after(runQueuedJobs)
+
+    // Winners are only picked from a result fresh enough not to need a refresh
+    if (!cached || (action === 'pick' && job)) {
+      return NextResponse.json({ campaign: campaign.slug, job }, { status: 202 })
+    }
+
+    const { token, stats, entries, rules, clusters, completeness } = cached.analysis
+
+    // If action is 'pick', pick a winner - never from a partial holder list
+    let result = null
+    if (action === 'pick') {
+      const incomplete = incompleteFetchError(cached.analysis)
+      if (incomplete) {
+        return NextResponse.json({ error: incomplete }, { status: 409 })
+      }
+      result = pickWinner(entries)
+    }
+
+    return NextResponse.json({
+      campaign: campaign.slug,
+      token,
+      stats,
+      rules,
+      clusters,
+      completeness,
+      entries,
+      result,
+      cachedAt: cached.completedAt,
+      job,
+    })
+
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
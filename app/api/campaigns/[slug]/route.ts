@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCampaign } from '@/lib/campaigns'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const campaign = await getCampaign(slug)
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(campaign)
+
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { listCampaigns, saveCampaign } from '@/lib/campaigns'
+
+/**
+ * List campaigns (newest first)
+ */
+export async function GET() {
+  try {
+    const campaigns = await listCampaigns()
+    return NextResponse.json({ campaigns })
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create or replace a campaign
+ * Body: { slug, name, tokenMint, rules?, prize?, prizeTiers?, schedule?, sources? }
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const body = await request.json()
+    const { slug, name, tokenMint, rules, prize, prizeTiers, schedule, sources } = body
+
+    const update = await saveCampaign({ slug, name, tokenMint, rules, prize, prizeTiers, schedule, sources })
+
+    if (!update.ok) {
+      return NextResponse.json({ error: update.error }, { status: update.status })
+    }
+
+    return NextResponse.json(update.campaign)
+
+  } catch (error) {
+    console.error('[campaigns] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { saveClusterReview } from '@/lib/clusters'
+
+/**
+ * Confirm or dismiss a flagged cluster
+ * Dismissed clusters are treated as separate holders from the next analysis on
+ * Body: { status: 'confirmed' | 'dismissed', reviewedBy, note? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { status, reviewedBy, note } = body
+
+    if (!/^[0-9a-f]{16}$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid cluster id' }, { status: 400 })
+    }
+
+    if (status !== 'confirmed' && status !== 'dismissed') {
+      return NextResponse.json({ error: "status must be 'confirmed' or 'dismissed'" }, { status: 400 })
+    }
+
+    if (typeof reviewedBy !== 'string' || !reviewedBy) {
+      return NextResponse.json({ error: 'reviewedBy is required' }, { status: 400 })
+    }
+
+    const review = await saveClusterReview({ clusterId: id, status, reviewedBy, note })
+    return NextResponse.json(review)
+
+  } catch (error) {
+    console.error('[clusters] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { getFlaggedClusters } from '@/lib/clusters'
+
+/**
+ * Clusters flagged by the latest analysis of a token, with their reviews
+ * Query: ?tokenMint=...
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const tokenMint = request.nextUrl.searchParams.get('tokenMint')
+
+    if (!tokenMint) {
+      return NextResponse.json({ error: 'Token mint address required' }, { status: 400 })
+    }
+
+    const flagged = await getFlaggedClusters(tokenMint)
+    return NextResponse.json(flagged ?? { tokenMint, analyzedAt: null, clusters: [] })
+
+  } catch (error) {
+    console.error('[clusters] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
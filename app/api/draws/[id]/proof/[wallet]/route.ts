@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDraw } from '@/lib/draws'
+import { buildMerkleProof } from '@/lib/lottery'
+import { getSnapshot } from '@/lib/snapshots'
+
+/**
+ * Merkle inclusion proof for a wallet in a draw's snapshot
+ * Check it with verifyMerkleProof(proof, merkleRoot) from lib/lottery.ts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; wallet: string }> }
+) {
+  try {
+    const { id, wallet } = await params
+    const draw = await getDraw(id)
+
+    if (!draw) {
+      return NextResponse.json({ error: 'Draw not found' }, { status: 404 })
+    }
+
+    if (!draw.snapshotId) {
+      return NextResponse.json({ error: 'Draw has no snapshot yet' }, { status: 409 })
+    }
+
+    const stored = await getSnapshot(draw.snapshotId)
+    if (!stored) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    const proof = buildMerkleProof(stored.snapshot.entries, wallet)
+    if (!proof) {
+      return NextResponse.json({ error: 'Wallet not in snapshot' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      drawId: draw.id,
+      snapshotId: stored.id,
+      commitment: stored.commitment,
+      merkleRoot: stored.snapshot.merkleRoot,
+      proof,
+    })
+
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { resolveDraw } from '@/lib/draws'
+import { configuredRpcUrl } from '@/lib/sources'
+
+/**
+ * announced -> resolved
+ * Returns 409 until the target slot is finalized
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await params
+
+    const rpcUrl = configuredRpcUrl()
+
+    if (!rpcUrl) {
+      return NextResponse.json({ error: 'No RPC endpoint configured (set SOLANA_RPC_URL or HELIUS_API_KEY)' }, { status: 500 })
+    }
+
+    const update = await resolveDraw(id, rpcUrl)
+
+    if (!update.ok) {
+      return NextResponse.json({ error: update.error }, { status: update.status })
+    }
+
+    return NextResponse.json(update.draw)
+
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
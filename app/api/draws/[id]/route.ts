@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDraw } from '@/lib/draws'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const draw = await getDraw(id)
+
+    if (!draw) {
+      return NextResponse.json({ error: 'Draw not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(draw)
+
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
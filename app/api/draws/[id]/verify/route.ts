@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { verifyDraw } from '@/lib/draws'
+
+/**
+ * resolved -> verified
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await params
+    const update = await verifyDraw(id)
+
+    if (!update.ok) {
+      return NextResponse.json({ error: update.error }, { status: update.status })
+    }
+
+    return NextResponse.json(update.draw)
+
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { createDraw, listDraws } from '@/lib/draws'
+import { validatePrizeTiers } from '@/lib/lottery'
+
+/**
+ * List draws (newest first)
+ */
+export async function GET() {
+  try {
+    const draws = await listDraws()
+    return NextResponse.json({ draws })
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a draft draw for a token
+ * Body: { tokenMint, announcementUrl?, prizeTiers?, removal?: 'wallet' | 'ticket' }
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const body = await request.json()
+    const { tokenMint, announcementUrl, prizeTiers, removal } = body
+
+    if (!tokenMint) {
+      return NextResponse.json({ error: 'Token mint address required' }, { status: 400 })
+    }
+
+    if (prizeTiers !== undefined) {
+      const error = validatePrizeTiers(prizeTiers)
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+    }
+
+    if (removal !== undefined && removal !== 'wallet' && removal !== 'ticket') {
+      return NextResponse.json({ error: "removal must be 'wallet' or 'ticket'" }, { status: 400 })
+    }
+
+    const draw = await createDraw(tokenMint, { announcementUrl, prizeTiers, removal })
+    return NextResponse.json(draw)
+
+  } catch (error) {
+    console.error('[draws] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { countCachedEligibility, invalidateEligibility } from '@/lib/eligibility-cache'
+import { decodeBase58 } from '@/lib/lottery'
+
+function isAddress(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 32
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read the optional tokenMint and wallet filters, or the name of a bad one
+ */
+function readFilter(request: NextRequest): { tokenMint?: string; wallet?: string } | string {
+  const { searchParams } = new URL(request.url)
+  const tokenMint = searchParams.get('tokenMint') || undefined
+  const wallet = searchParams.get('wallet') || undefined
+
+  if (tokenMint && !isAddress(tokenMint)) return 'tokenMint'
+  if (wallet && !isAddress(wallet)) return 'wallet'
+  return { tokenMint, wallet }
+}
+
+/**
+ * Number of cached sell checks
+ * Query: ?tokenMint= (optional)
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const filter = readFilter(request)
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: `${filter} must be a Solana address` }, { status: 400 })
+    }
+
+    const cached = await countCachedEligibility(filter.tokenMint)
+    return NextResponse.json({ tokenMint: filter.tokenMint ?? null, cached })
+
+  } catch (error) {
+    console.error('[eligibility] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Drop cached sell checks so the next check rescans full histories
+ * Query: ?tokenMint=&wallet= (both optional - neither clears everything)
+ */
+export async function DELETE(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const filter = readFilter(request)
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: `${filter} must be a Solana address` }, { status: 400 })
+    }
+
+    const removed = await invalidateEligibility(filter)
+    return NextResponse.json({ removed })
+
+  } catch (error) {
+    console.error('[eligibility] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+import { getCachedAnalysis, getJob, runQueuedJobs } from '@/lib/jobs'
+
+export const maxDuration = 300 // 5 minutes, in case this request runs the queue
+
+/**
+ * Status and progress of an analysis job, with the analysis once it is done
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    // The instance that queued it may be gone - run the queue from here
+    if (job.status === 'queued') after(runQueuedJobs)
+
+    const cached = job.status === 'done' ? await getCachedAnalysis(job.key) : null
+
+    return NextResponse.json({
+      job,
+      analysis: cached?.analysis ?? null,
+      cachedAt: cached?.completedAt ?? null,
+    })
+
+  } catch (error) {
+    console.error('[jobs] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
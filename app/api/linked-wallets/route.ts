@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { listLinkedWalletRecords, saveLinkedWalletGroup } from '@/lib/linked-wallets'
+import { decodeBase58 } from '@/lib/lottery'
+
+function isAddress(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 32
+  } catch {
+    return false
+  }
+}
+
+/**
+ * List declared linked wallet groups
+ */
+export async function GET() {
+  try {
+    const groups = await listLinkedWalletRecords()
+    return NextResponse.json({ groups })
+  } catch (error) {
+    console.error('[linked-wallets] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Declare a group of wallets owned by the same holder
+ * Body: { wallets: string[], note?: string }
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const body = await request.json()
+    const { wallets, note } = body
+
+    if (!Array.isArray(wallets) || wallets.length < 2 || !wallets.every(w => typeof w === 'string')) {
+      return NextResponse.json({ error: 'wallets must be a list of at least two addresses' }, { status: 400 })
+    }
+
+    const invalid = wallets.find(w => !isAddress(w))
+    if (invalid !== undefined) {
+      return NextResponse.json({ error: `${invalid} is not a Solana address` }, { status: 400 })
+    }
+
+    const group = await saveLinkedWalletGroup(wallets, note)
+    return NextResponse.json(group)
+
+  } catch (error) {
+    console.error('[linked-wallets] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
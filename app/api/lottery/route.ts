@@ -1,125 +1,76 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { fetchAllHolders, getTokenOverview } from '@/lib/birdeye'
-import {
-  batchCheckSells,
-  isExcludedAddress,
-  fetchAllHoldersHelius,
-  getTokenMetadataHelius,
-} from '@/lib/helius'
-import { buildLotteryEntries, pickWinner, calculateTickets } from '@/lib/lottery'
-
-export const maxDuration = 300 // 5 minutes for processing
-
+import { after, NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { isLotteryMint } from '@/lib/campaigns'
+import { requestAnalysis, runQueuedJobs } from '@/lib/jobs'
+import { decodeBase58, pickWinner } from '@/lib/lottery'
+import { incompleteFetchError, sellCheckEnabled } from '@/lib/pipeline'
+
+export const maxDuration = 300 // 5 minutes for the queued analysis
+
+/**
+ * A token's analysis from the results cache, queueing a job to refresh it
+ * once it is stale (see lib/jobs.ts). Answers 202 with the job when there
+ * is no result yet - poll GET /api/jobs/:id. Anyone can ask for the home
+ * page's token or a campaign's with the default sell check; other mints
+ * and checkSells overrides need admin auth.
+ * Body: { tokenMint, action?: 'analyze' | 'pick', checkSells?, resume? }
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { tokenMint, action } = body
+    const { tokenMint, action, checkSells, resume } = body
 
     if (!tokenMint) {
       return NextResponse.json({ error: 'Token mint address required' }, { status: 400 })
     }
 
-    const birdeyeKey = process.env.BIRDEYE_API_KEY
-    const heliusKey = process.env.HELIUS_API_KEY
-
-    if (!heliusKey) {
-      return NextResponse.json({ error: 'HELIUS_API_KEY not configured' }, { status: 500 })
-    }
-
-    // Get token info - try Birdeye first, then Helius
-    let tokenInfo: { symbol: string; name: string } | null = null
-
-    if (birdeyeKey) {
-      const birdeyeInfo = await getTokenOverview(tokenMint, birdeyeKey)
-      if (birdeyeInfo) {
-        tokenInfo = { symbol: birdeyeInfo.symbol, name: birdeyeInfo.name }
-      }
+    let validMint = false
+    try {
+      validMint = typeof tokenMint === 'string' && decodeBase58(tokenMint).length === 32
+    } catch {
+      // Invalid base58
     }
-
-    if (!tokenInfo) {
-      const heliusInfo = await getTokenMetadataHelius(tokenMint, heliusKey)
-      if (heliusInfo) {
-        tokenInfo = { symbol: heliusInfo.symbol, name: heliusInfo.name }
-      }
+    if (!validMint) {
+      return NextResponse.json({ error: 'tokenMint must be a Solana address' }, { status: 400 })
     }
 
-    if (!tokenInfo) {
-      return NextResponse.json({ error: 'Could not fetch token info' }, { status: 400 })
+    const sellCheck = typeof checkSells === 'boolean' ? checkSells : sellCheckEnabled()
+    if (sellCheck !== sellCheckEnabled() || !(await isLotteryMint(tokenMint))) {
+      const unauthorized = requireAdmin(request)
+      if (unauthorized) return unauthorized
     }
 
-    // Fetch all holders - try Birdeye first, then fall back to Helius
-    console.log(`[lottery] Fetching holders for ${tokenInfo.symbol}...`)
+    const { cached, job } = await requestAnalysis({ tokenMint, checkSells: sellCheck, resume: resume === true })
+    if (job) after(runQueuedJobs)
 
-    let allHolders: Array<{ owner: string; balance: number }> = []
-    let usedSource = 'birdeye'
-
-    if (birdeyeKey) {
-      try {
-        const birdeyeHolders = await fetchAllHolders(tokenMint, birdeyeKey)
-        allHolders = birdeyeHolders.map(h => ({ owner: h.owner, balance: h.balance }))
-      } catch (error) {
-        console.log(`[lottery] Birdeye failed, falling back to Helius...`)
-        // Birdeye failed (likely 404 due to tier), fall back to Helius
-      }
+    // Winners are only picked from a result fresh enough not to need a refresh
+    if (!cached || (action === 'pick' && job)) {
+      return NextResponse.json({ job }, { status: 202 })
     }
 
-    if (allHolders.length === 0) {
-      console.log(`[lottery] Using Helius to fetch holders...`)
-      usedSource = 'helius'
-      const heliusHolders = await fetchAllHoldersHelius(tokenMint, heliusKey)
-      allHolders = heliusHolders
-    }
+    const { token, stats, entries, rules, clusters, completeness } = cached.analysis
 
-    if (allHolders.length === 0) {
-      return NextResponse.json({ error: 'No holders found' }, { status: 400 })
-    }
-
-    console.log(`[lottery] Fetched ${allHolders.length} holders via ${usedSource}`)
-
-    // Filter out LP addresses and wallets with < 10k tokens
-    const eligibleHolders = allHolders.filter(h => {
-      if (isExcludedAddress(h.owner)) return false
-      if (calculateTickets(h.balance) < 1) return false
-      return true
-    })
-
-    console.log(`[lottery] ${eligibleHolders.length} holders with 10k+ tokens (excluding LPs)`)
-
-    // All holders with 10k+ tokens are eligible (no sell check)
-    const eligibilityMap = new Map<string, { eligible: boolean; reason?: string }>()
-    for (const holder of eligibleHolders) {
-      eligibilityMap.set(holder.owner, { eligible: true })
-    }
-
-    // Build lottery entries
-    const entries = buildLotteryEntries(eligibleHolders, eligibilityMap)
-
-    // If action is 'pick', pick a winner
+    // If action is 'pick', pick a winner - never from a partial holder list
     let result = null
     if (action === 'pick') {
+      const incomplete = incompleteFetchError(cached.analysis)
+      if (incomplete) {
+        return NextResponse.json({ error: incomplete }, { status: 409 })
+      }
       result = pickWinner(entries)
     }
 
-    // Stats
-    const eligibleEntries = entries.filter(e => e.eligible)
-    const totalTickets = eligibleEntries.reduce((sum, e) => sum + e.tickets, 0)
-
     return NextResponse.json({
-      token: {
-        mint: tokenMint,
-        symbol: tokenInfo.symbol,
-        name: tokenInfo.name,
-      },
-      stats: {
-        totalHolders: allHolders.length,
-        holdersWithMinBalance: eligibleHolders.length,
-        eligibleHolders: eligibleEntries.length,
-        disqualified: entries.filter(e => !e.eligible).length,
-        totalTickets,
-        source: usedSource,
-      },
+      token,
+      stats,
+      rules,
+      clusters,
+      completeness,
       entries, // Return all eligible entries
       result,
+      cachedAt: cached.completedAt,
+      // Refreshing the result, when it is stale
+      job,
     })
 
   } catch (error) {
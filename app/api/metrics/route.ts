@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { getHttpMetrics, rateLimitFor } from '@/lib/http'
+
+/**
+ * Request counters and rate limits per data provider (since the server started)
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    return NextResponse.json({
+      providers: getHttpMetrics(),
+      limits: {
+        helius: rateLimitFor('helius'),
+        birdeye: rateLimitFor('birdeye'),
+        rpc: rateLimitFor('rpc'),
+      },
+    })
+
+  } catch (error) {
+    console.error('[metrics] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSnapshot } from '@/lib/snapshots'
+
+/**
+ * Get a stored snapshot with its commitment
+ * Anyone can recompute the commitment: SHA-256 of canonicalJSON(snapshot)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const stored = await getSnapshot(id)
+
+    if (!stored) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(stored)
+
+  } catch (error) {
+    console.error('[snapshots] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin'
+import { analyzeToken, incompleteFetchError } from '@/lib/pipeline'
+import { configuredSources } from '@/lib/sources'
+import { createSnapshot } from '@/lib/lottery'
+import { listSnapshots, saveSnapshot } from '@/lib/snapshots'
+
+export const maxDuration = 300 // 5 minutes for processing
+
+/**
+ * List stored snapshots (newest first)
+ */
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots()
+    return NextResponse.json({ snapshots })
+  } catch (error) {
+    console.error('[snapshots] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Analyze a token, take a snapshot of eligible entries and persist it
+ * Returns the snapshot id and its SHA-256 commitment for announcement
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const body = await request.json()
+    const { tokenMint } = body
+
+    if (!tokenMint) {
+      return NextResponse.json({ error: 'Token mint address required' }, { status: 400 })
+    }
+
+    const analysis = await analyzeToken(tokenMint, configuredSources(), { pinToSlot: true })
+
+    if (!analysis.ok) {
+      return NextResponse.json({ error: analysis.error }, { status: analysis.status })
+    }
+
+    const incomplete = incompleteFetchError(analysis.analysis)
+    if (incomplete) {
+      return NextResponse.json({ error: incomplete }, { status: 409 })
+    }
+
+    const { entries, token, rules, slot, exclusions, asOf } = analysis.analysis
+    const snapshot = createSnapshot(entries, tokenMint, token.decimals, rules, slot, exclusions, asOf)
+    const stored = await saveSnapshot(snapshot)
+
+    return NextResponse.json({
+      id: stored.id,
+      commitment: stored.commitment,
+      merkleRoot: snapshot.merkleRoot,
+      createdAt: stored.createdAt,
+      slot: snapshot.slot,
+      totalTickets: snapshot.totalTickets,
+      totalEligible: snapshot.totalEligible,
+    })
+
+  } catch (error) {
+    console.error('[snapshots] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
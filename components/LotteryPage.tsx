@@ -0,0 +1,618 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Campaign } from '@/lib/campaigns'
+import { DEFAULT_RULES, LotteryRules } from '@/lib/rules'
+
+interface LotteryEntry {
+  wallet: string
+  amount: string // raw base units
+  tickets: number
+  eligible: boolean
+  reason?: { code: string; message: string }
+  heldWeeks?: number
+  bonusPercent?: number
+}
+
+interface LotteryData {
+  entries: LotteryEntry[]
+  decimals: number
+  rules: LotteryRules
+  stats: {
+    totalHolders: number
+    processedHolders: number
+    reportedHolders: number | null
+    eligibleHolders: number
+    disqualified: number
+    totalTickets: number
+    sellCheck: boolean
+  }
+  // Whether every holder page was fetched
+  completeness?: { complete: boolean; error?: string }
+  lastUpdated: number
+}
+
+// Refresh interval: 5 minutes
+const REFRESH_INTERVAL = 5 * 60 * 1000
+// How often a queued analysis is polled
+const JOB_POLL_INTERVAL = 3000
+
+// Analysis job as returned by /api/jobs/:id (only the fields used here)
+interface AnalysisJob {
+  id: string
+  status: 'queued' | 'running' | 'done' | 'failed'
+  progress?: { stage: string; done: number; total: number | null }
+  error?: string
+}
+
+// Draw as returned by /api/draws (only the fields shown here)
+interface Draw {
+  id: string
+  tokenMint: string
+  status: 'draft' | 'snapshot_taken' | 'announced' | 'resolved' | 'verified'
+  announcementUrl?: string
+  commitment?: string
+  merkleRoot?: string
+  snapshotSlot?: number
+  targetSlot?: number
+  resolvedSlot?: number
+  blockHash?: string
+  result?: {
+    winner: { wallet: string; tickets: number }
+    winningTicket: number
+    totalTickets: number
+  }
+  prizeTiers?: Array<{ label: string; count: number; prize?: string }>
+  winners?: {
+    winners: Array<{ rank: number; tier: string; prize?: string; wallet: string }>
+  }
+  transitions: Array<{ to: string; at: number }>
+}
+
+interface LotteryPageProps {
+  tokenMint: string
+  title: string
+  // Campaign pages load holders and draws from /api/campaigns/:slug
+  campaign?: Campaign
+}
+
+/**
+ * Holder list, rules and drawing info for one token
+ */
+export default function LotteryPage({ tokenMint, title, campaign }: LotteryPageProps) {
+  const slug = campaign?.slug
+  const [searchWallet, setSearchWallet] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [data, setData] = useState<LotteryData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [searchResult, setSearchResult] = useState<LotteryEntry | null>(null)
+  const [searched, setSearched] = useState(false)
+  const [nextRefresh, setNextRefresh] = useState<number>(0)
+  const [draw, setDraw] = useState<Draw | null>(null)
+  const [progress, setProgress] = useState<AnalysisJob['progress'] | null>(null)
+
+  // Show an analysis from the results cache (as returned by the lottery routes)
+  const showAnalysis = useCallback((analysis: {
+    entries: LotteryEntry[]
+    token: { decimals: number }
+    rules: LotteryRules
+    stats: LotteryData['stats']
+    completeness: LotteryData['completeness']
+  }, cachedAt: number) => {
+    setData({
+      entries: analysis.entries.filter(e => e.eligible),
+      decimals: analysis.token.decimals,
+      rules: analysis.rules,
+      stats: analysis.stats,
+      completeness: analysis.completeness,
+      lastUpdated: cachedAt,
+    })
+  }, [])
+
+  // Poll a queued analysis until it finishes, then show its result
+  const waitForJob = useCallback(async (job: AnalysisJob) => {
+    while (job.status === 'queued' || job.status === 'running') {
+      setProgress(job.progress ?? null)
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+
+      const res = await fetch(`/api/jobs/${job.id}`)
+      const json = await res.json()
+      if (!res.ok) {
+        throw new Error(json.error || 'Failed to load holders')
+      }
+
+      job = json.job
+      if (job.status === 'done' && json.analysis) {
+        showAnalysis(json.analysis, json.cachedAt)
+      }
+    }
+
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Failed to load holders')
+    }
+  }, [showAnalysis])
+
+  const loadHolders = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const res = await fetch(slug ? `/api/campaigns/${slug}/lottery` : '/api/lottery', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(slug ? { action: 'analyze' } : { tokenMint, action: 'analyze' }),
+      })
+
+      const json = await res.json()
+
+      if (!res.ok) {
+        throw new Error(json.error || 'Failed to load holders')
+      }
+
+      // The cached result (if any) is shown while a newer one is analyzed
+      if (json.entries) {
+        showAnalysis(json, json.cachedAt)
+      }
+      if (json.job) {
+        await waitForJob(json.job)
+      }
+      setNextRefresh(Date.now() + REFRESH_INTERVAL)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+      setProgress(null)
+    }
+  }, [tokenMint, slug, showAnalysis, waitForJob])
+
+  // Latest announced draw for this token (drafts and unannounced snapshots stay hidden)
+  const loadDraw = useCallback(async () => {
+    try {
+      const res = await fetch(slug ? `/api/campaigns/${slug}/draws` : '/api/draws')
+      if (!res.ok) return
+
+      const json = await res.json()
+      const latest = (json.draws as Draw[]).find(
+        d => d.tokenMint === tokenMint && d.targetSlot !== undefined
+      )
+      setDraw(latest || null)
+    } catch {
+      // Drawing info is optional - keep showing the holder list
+    }
+  }, [tokenMint, slug])
+
+  // Load eligible holders on mount and refresh every 5 minutes
+  useEffect(() => {
+    if (tokenMint) {
+      loadHolders()
+      loadDraw()
+      const interval = setInterval(() => {
+        loadHolders()
+        loadDraw()
+      }, REFRESH_INTERVAL)
+      return () => clearInterval(interval)
+    }
+  }, [tokenMint, loadHolders, loadDraw])
+
+  // Force re-render for countdown timer
+  const [, setTick] = useState(0)
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const getTimeUntilRefresh = () => {
+    if (!nextRefresh) return ''
+    const diff = Math.max(0, nextRefresh - Date.now())
+    const mins = Math.floor(diff / 60000)
+    const secs = Math.floor((diff % 60000) / 1000)
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  const formatLastUpdated = () => {
+    if (!data?.lastUpdated) return ''
+    return new Date(data.lastUpdated).toLocaleTimeString()
+  }
+
+  const searchForWallet = () => {
+    if (!searchWallet.trim()) {
+      setSearchResult(null)
+      setSearched(false)
+      return
+    }
+
+    setSearched(true)
+
+    if (!data) {
+      setSearchResult(null)
+      return
+    }
+
+    const found = data.entries.find(
+      e => e.wallet.toLowerCase() === searchWallet.trim().toLowerCase()
+    )
+    setSearchResult(found || null)
+  }
+
+  const formatNumber = (n: number) => n.toLocaleString()
+  const rules = data?.rules ?? DEFAULT_RULES
+  // Whole tokens from a raw base-unit amount, formatted only for display
+  const formatAmount = (amount: string) =>
+    (BigInt(amount) / BigInt(10) ** BigInt(data?.decimals ?? 0)).toLocaleString('en-US')
+  const formatWallet = (w: string) => `${w.slice(0, 6)}...${w.slice(-4)}`
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-4xl mx-auto px-4 py-12">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl font-bold mb-2">
+            BAGS<span className="text-emerald-400">LOTTO</span>
+          </h1>
+          <div className="text-5xl md:text-7xl font-black text-emerald-400 mb-2">
+            {title}
+          </div>
+          {tokenMint && (
+            <div className="text-sm text-zinc-500 font-mono">
+              CA: {tokenMint}
+            </div>
+          )}
+          {campaign?.schedule && (
+            <div className="text-sm text-zinc-400 mt-2 space-x-4">
+              {campaign.schedule.snapshotAt && (
+                <span>Snapshot: {new Date(campaign.schedule.snapshotAt).toUTCString()}</span>
+              )}
+              {campaign.schedule.drawAt && (
+                <span>Draw: {new Date(campaign.schedule.drawAt).toUTCString()}</span>
+              )}
+              {campaign.schedule.note && <span>{campaign.schedule.note}</span>}
+            </div>
+          )}
+        </div>
+
+        {/* Rules */}
+        <div className="bg-zinc-900 rounded-xl p-6 mb-8 border border-zinc-800">
+          <h2 className="text-xl font-semibold mb-4 text-emerald-400">Rules</h2>
+          <ul className="space-y-2 text-zinc-300">
+            {rules.weighting.type === 'tiered' ? (
+              rules.weighting.tiers.map((tier, i) => (
+                <li key={i}>
+                  {tier.upToTokens !== undefined
+                    ? <>Next <span className="text-white font-semibold">{formatNumber(tier.upToTokens)} tokens</span></>
+                    : <>Everything above that</>}
+                  : 1 ticket per <span className="text-white font-semibold">{formatNumber(tier.tokensPerTicket)} tokens</span>
+                </li>
+              ))
+            ) : rules.weighting.type === 'sqrt' ? (
+              <li>
+                Tickets = <span className="text-white font-semibold">√(tokens ÷ {formatNumber(rules.tokensPerTicket)})</span>, rounded down
+              </li>
+            ) : (
+              <li>Every <span className="text-white font-semibold">{formatNumber(rules.tokensPerTicket)} tokens</span> = 1 ticket</li>
+            )}
+            {rules.holdingBonus && (
+              <li>
+                Diamond hands bonus: <span className="text-white font-semibold">+{rules.holdingBonus.percentPerWeek}% tickets</span> per
+                full week held, up to <span className="text-white font-semibold">+{rules.holdingBonus.maxPercent}%</span>
+              </li>
+            )}
+            <li>Minimum <span className="text-white font-semibold">{formatNumber(rules.minTokens)} tokens</span> to enter</li>
+            <li>
+              Maximum <span className="text-white font-semibold">{formatNumber(rules.maxTokens)} tokens</span> counted,
+              up to <span className="text-white font-semibold">{formatNumber(rules.maxTickets)} tickets</span> (cap)
+            </li>
+            {rules.clusterCap && (
+              <li>Wallets that belong to one holder <span className="text-white font-semibold">share one cap</span></li>
+            )}
+            {data?.stats.sellCheck && (
+              <li>Must <span className="text-white font-semibold">never have sold</span> any tokens</li>
+            )}
+            <li>LP wallets and programs are excluded</li>
+          </ul>
+        </div>
+
+        {/* Drawing Info - Only show when announced */}
+        {draw && draw.targetSlot !== undefined && (
+          <div className="bg-emerald-400/10 rounded-xl p-6 mb-8 border-2 border-emerald-400">
+            <h2 className="text-xl font-semibold mb-4 text-emerald-400">
+              {draw.result ? 'WINNER DRAWN' : 'DRAWING ANNOUNCED'}
+            </h2>
+            <div className="space-y-3 text-zinc-300">
+              <div>
+                <span className="text-zinc-400">Target Block Slot:</span>{' '}
+                <span className="text-white font-mono font-bold">{draw.targetSlot.toLocaleString()}</span>
+              </div>
+              <div>
+                <span className="text-zinc-400">Snapshot Taken:</span>{' '}
+                <span className="text-white">
+                  {new Date(
+                    draw.transitions.find(t => t.to === 'snapshot_taken')?.at ?? 0
+                  ).toISOString()}
+                </span>
+                {draw.snapshotSlot !== undefined && (
+                  <span className="text-zinc-400"> (slot {draw.snapshotSlot.toLocaleString()})</span>
+                )}
+              </div>
+              {draw.commitment && (
+                <div>
+                  <span className="text-zinc-400">Snapshot Commitment:</span>{' '}
+                  <span className="text-white font-mono text-sm break-all">{draw.commitment}</span>
+                </div>
+              )}
+              {draw.merkleRoot && (
+                <div>
+                  <span className="text-zinc-400">Merkle Root:</span>{' '}
+                  <span className="text-white font-mono text-sm break-all">{draw.merkleRoot}</span>
+                  <div className="text-xs text-zinc-500 mt-1">
+                    Inclusion proof for your wallet: /api/draws/{draw.id}/proof/&lt;wallet&gt;
+                  </div>
+                </div>
+              )}
+              {draw.result && draw.blockHash && (
+                <>
+                  <div>
+                    <span className="text-zinc-400">Block Hash (slot {draw.resolvedSlot?.toLocaleString()}):</span>{' '}
+                    <span className="text-white font-mono text-sm break-all">{draw.blockHash}</span>
+                  </div>
+                  <div>
+                    <span className="text-zinc-400">Winning Ticket:</span>{' '}
+                    <span className="text-white font-bold">
+                      {formatNumber(draw.result.winningTicket)} of {formatNumber(draw.result.totalTickets)}
+                    </span>
+                  </div>
+                  {draw.winners ? (
+                    <div>
+                      <span className="text-zinc-400">Winners:</span>
+                      {draw.status === 'verified' && (
+                        <span className="ml-2 text-green-400 text-sm">(verified)</span>
+                      )}
+                      <ol className="mt-2 space-y-1">
+                        {draw.winners.winners.map(w => (
+                          <li key={w.rank} className="text-sm">
+                            <span className="text-zinc-500">#{w.rank}</span>{' '}
+                            <span className="text-zinc-400">{w.tier}{w.prize && ` (${w.prize})`}:</span>{' '}
+                            <span className="text-emerald-400 font-mono font-bold break-all">{w.wallet}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  ) : (
+                    <div>
+                      <span className="text-zinc-400">Winner:</span>{' '}
+                      <span className="text-emerald-400 font-mono font-bold break-all">{draw.result.winner.wallet}</span>
+                      {draw.status === 'verified' && (
+                        <span className="ml-2 text-green-400 text-sm">(verified)</span>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+              {!draw.result && draw.prizeTiers && (
+                <div>
+                  <span className="text-zinc-400">Prizes:</span>{' '}
+                  <span className="text-white">
+                    {draw.prizeTiers.map(t => `${t.count}x ${t.label}${t.prize ? ` (${t.prize})` : ''}`).join(', ')}
+                  </span>
+                </div>
+              )}
+              {draw.announcementUrl && (
+                <div>
+                  <a
+                    href={draw.announcementUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-emerald-400 hover:text-emerald-300 underline"
+                  >
+                    View Announcement
+                  </a>
+                </div>
+              )}
+            </div>
+            {!draw.result && (
+              <div className="mt-4 p-3 bg-zinc-800 rounded-lg text-sm text-zinc-400">
+                The winner will be determined once block {draw.targetSlot.toLocaleString()} is finalized.
+                The block hash will be used as the random seed.
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Verifiable Randomness */}
+        <div className="bg-zinc-900 rounded-xl p-6 mb-8 border border-zinc-800">
+          <h2 className="text-xl font-semibold mb-4 text-emerald-400">Verifiable Randomness</h2>
+          <p className="text-zinc-300 mb-4">
+            The winner selection is provably fair and verifiable by anyone. Here&apos;s how it works:
+          </p>
+          <ol className="space-y-3 text-zinc-300 list-decimal list-inside">
+            <li>
+              <span className="text-white font-semibold">Snapshot:</span> At selection time, we take a snapshot of all eligible holders and their ticket counts
+            </li>
+            <li>
+              <span className="text-white font-semibold">Future Block:</span> We announce a future Solana block number (e.g., current block + 100)
+            </li>
+            <li>
+              <span className="text-white font-semibold">Block Hash as Seed:</span> Once that block is mined, its hash becomes our random seed - this cannot be predicted or manipulated
+            </li>
+            <li>
+              <span className="text-white font-semibold">Deterministic Selection:</span> The block hash is decoded from base58 to 32 bytes and expanded with SHA-256; rejection sampling turns it into a winning ticket number with no modulo bias
+            </li>
+            <li>
+              <span className="text-white font-semibold">Verify Yourself:</span> Anyone can verify the result using the published snapshot, block hash, and our open-source algorithm
+            </li>
+          </ol>
+          <div className="mt-4 p-4 bg-zinc-800 rounded-lg">
+            <div className="text-sm text-zinc-400 font-mono">
+              winningTicket = uniformTicketIndex(base58Decode(blockHash), totalTickets) + 1
+            </div>
+          </div>
+        </div>
+
+        {/* Wallet Search */}
+        <div className="bg-zinc-900 rounded-xl p-6 mb-8 border border-zinc-800">
+          <h2 className="text-xl font-semibold mb-4">Check Your Eligibility</h2>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={searchWallet}
+              onChange={(e) => setSearchWallet(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && searchForWallet()}
+              placeholder="Enter your wallet address..."
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-3 text-white placeholder-zinc-500 focus:border-emerald-400 focus:outline-none"
+            />
+            <button
+              onClick={searchForWallet}
+              className="bg-emerald-400 text-black font-semibold px-6 py-3 rounded-lg hover:bg-emerald-300 transition-colors"
+            >
+              Search
+            </button>
+          </div>
+
+          {/* Search Result */}
+          {searched && (
+            <div className="mt-4">
+              {searchResult ? (
+                <div className="bg-green-900/30 border border-green-500/50 rounded-lg p-4">
+                  <div className="text-green-400 font-semibold mb-2">ELIGIBLE</div>
+                  <div className="text-zinc-300">
+                    Balance: <span className="text-white font-semibold">{formatAmount(searchResult.amount)}</span> tokens
+                  </div>
+                  <div className="text-zinc-300">
+                    Tickets: <span className="text-emerald-400 font-bold text-xl">{formatNumber(searchResult.tickets)}</span>
+                  </div>
+                  {searchResult.bonusPercent !== undefined && (
+                    <div className="text-zinc-300">
+                      Holding bonus: <span className="text-white font-semibold">+{searchResult.bonusPercent}%</span>{' '}
+                      ({searchResult.heldWeeks} {searchResult.heldWeeks === 1 ? 'week' : 'weeks'} held)
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="bg-red-900/30 border border-red-500/50 rounded-lg p-4">
+                  <div className="text-red-400 font-semibold">NOT ELIGIBLE</div>
+                  <div className="text-zinc-400 text-sm mt-1">
+                    Wallet not found in eligible holders list. You may have sold tokens or don&apos;t hold enough.
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-900/50 border border-red-500 rounded-lg p-4 mb-8 text-red-200">
+            {error}
+          </div>
+        )}
+
+        {data?.completeness && !data.completeness.complete && (
+          <div className="bg-yellow-900/50 border border-yellow-500 rounded-lg p-4 mb-8 text-yellow-200">
+            Some holders could not be loaded ({data.completeness.error ?? 'fetch stopped early'}).
+            {' '}Loaded {formatNumber(data.stats.processedHolders)}
+            {data.stats.reportedHolders !== null && <> of {formatNumber(data.stats.reportedHolders)}</>} holders - the list below is incomplete.
+          </div>
+        )}
+
+        {/* Token not set message */}
+        {!tokenMint && (
+          <div className="bg-zinc-900 rounded-xl p-8 border border-zinc-800 text-center">
+            <div className="text-2xl font-bold text-emerald-400 mb-2">Coming Soon</div>
+            <div className="text-zinc-400">
+              Eligible holders list will be available after token launch
+            </div>
+          </div>
+        )}
+
+        {/* Loading */}
+        {loading && (
+          <div className="text-center py-12">
+            <div className="text-zinc-400">Loading eligible holders...</div>
+            {progress && (
+              <div className="text-zinc-500 text-sm mt-2">
+                {progress.stage === 'sell-check'
+                  ? `Checking wallets: ${formatNumber(progress.done)} / ${formatNumber(progress.total ?? 0)}`
+                  : `Reading holders: ${formatNumber(progress.done)}`}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Stats */}
+        {data && (
+          <>
+            {/* Last Updated Banner */}
+            <div className="flex justify-between items-center mb-4 text-sm text-zinc-400">
+              <div>
+                Last updated: <span className="text-white">{formatLastUpdated()}</span>
+              </div>
+              <div>
+                Next refresh: <span className="text-emerald-400 font-mono">{getTimeUntilRefresh()}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 text-center">
+                <div className="text-2xl font-bold text-white">{formatNumber(data.stats.totalHolders)}</div>
+                <div className="text-sm text-zinc-400">Total Holders</div>
+              </div>
+              <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 text-center">
+                <div className="text-2xl font-bold text-green-400">{formatNumber(data.stats.eligibleHolders)}</div>
+                <div className="text-sm text-zinc-400">Eligible</div>
+              </div>
+              <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 text-center">
+                <div className="text-2xl font-bold text-red-400">{formatNumber(data.stats.disqualified)}</div>
+                <div className="text-sm text-zinc-400">Disqualified</div>
+              </div>
+              <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 text-center">
+                <div className="text-2xl font-bold text-emerald-400">{formatNumber(data.stats.totalTickets)}</div>
+                <div className="text-sm text-zinc-400">Total Tickets</div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Eligible Holders Table */}
+        {data && data.entries.length > 0 && (
+          <div className="bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden">
+            <div className="p-4 border-b border-zinc-800">
+              <h3 className="font-semibold">Eligible Holders ({formatNumber(data.entries.length)})</h3>
+            </div>
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full">
+                <thead className="bg-zinc-800 sticky top-0">
+                  <tr>
+                    <th className="text-left px-4 py-3 text-sm text-zinc-400">#</th>
+                    <th className="text-left px-4 py-3 text-sm text-zinc-400">Wallet</th>
+                    <th className="text-right px-4 py-3 text-sm text-zinc-400">Balance</th>
+                    <th className="text-right px-4 py-3 text-sm text-zinc-400">Tickets</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {data.entries.map((entry, i) => (
+                    <tr key={entry.wallet} className="hover:bg-zinc-800/50">
+                      <td className="px-4 py-3 text-zinc-500">{i + 1}</td>
+                      <td className="px-4 py-3">
+                        <code className="text-sm">{formatWallet(entry.wallet)}</code>
+                      </td>
+                      <td className="px-4 py-3 text-right text-zinc-300">
+                        {formatAmount(entry.amount)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-emerald-400 font-semibold">
+                        {formatNumber(entry.tickets)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="mt-12 text-center text-zinc-600 text-sm">
+          BAGSLOTTO
+        </div>
+      </main>
+    </div>
+  )
+}
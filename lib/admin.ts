@@ -0,0 +1,28 @@
+/**
+ * Admin auth for routes that change state (snapshots, draws)
+ * Callers send `Authorization: Bearer <ADMIN_API_KEY>`
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Returns an error response if the request is not from an admin, null otherwise
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const adminKey = process.env.ADMIN_API_KEY
+
+  if (!adminKey) {
+    return NextResponse.json({ error: 'ADMIN_API_KEY not configured' }, { status: 500 })
+  }
+
+  const header = request.headers.get('authorization') || ''
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(adminKey)
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
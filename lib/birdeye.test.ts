@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { fetchAllHolders } from './birdeye'
+import { resetHttpClient } from './http'
+
+const realFetch = globalThis.fetch
+
+// Serve `total` holders, 100 per page
+function serveHolders(total: number) {
+  globalThis.fetch = async url => {
+    const offset = Number(new URL(String(url)).searchParams.get('offset'))
+    const items = Array.from({ length: Math.max(0, Math.min(100, total - offset)) }, (_, i) => ({
+      owner: `Holder${offset + i}`, ui_amount: 1, amount: '1',
+    }))
+    return Response.json({ success: true, data: { total, items } })
+  }
+}
+
+describe('fetchAllHolders', () => {
+  before(() => {
+    process.env.BIRDEYE_RPS = '10000'
+    resetHttpClient()
+  })
+
+  after(() => {
+    globalThis.fetch = realFetch
+    delete process.env.BIRDEYE_RPS
+    resetHttpClient()
+  })
+
+  const fetchAll = async () => {
+    let holders = 0
+    const fetched = await fetchAllHolders('mint', 'key', async page => { holders += page.length })
+    return { holders, ...fetched }
+  }
+
+  it('is complete with exactly 10,000 holders', async () => {
+    serveHolders(10_000)
+    const { holders, total, report } = await fetchAll()
+    assert.equal(holders, 10_000)
+    assert.equal(total, 10_000)
+    assert.equal(report.complete, true)
+  })
+
+  it('is incomplete with more holders than Birdeye lists', async () => {
+    serveHolders(10_001)
+    const { holders, report } = await fetchAll()
+    assert.equal(holders, 10_000)
+    assert.equal(report.complete, false)
+    assert.equal(report.cursor, '10000')
+  })
+})
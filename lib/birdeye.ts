@@ -6,13 +6,10 @@
  * Birdeye Starter tier or higher. If you get 404, upgrade your plan.
  */
 
-const BIRDEYE_BASE = 'https://public-api.birdeye.so'
+import { fetchWithRetry } from './http'
+import type { HolderPageHandler, PagedFetch } from './sources'
 
-export interface TokenHolder {
-  owner: string        // Wallet address
-  balance: number      // Token balance (UI amount)
-  percentage: number   // % of total supply
-}
+const BIRDEYE_BASE = 'https://public-api.birdeye.so'
 
 export interface HolderListResponse {
   success: boolean
@@ -26,81 +23,100 @@ export interface HolderListResponse {
   }
 }
 
+// The holder endpoint won't page past the first 10,000 holders
+const MAX_OFFSET = 10000
+
 /**
- * Fetch all token holders with pagination
- * Returns up to 10,000 holders (Birdeye limit)
+ * Fetch all token holders with pagination, passing each page to onPage
+ * The list ends at a short or empty page, or once the reported total is
+ * read. Birdeye only lists the top 10,000 holders - if there are more, the
+ * fetch is reported incomplete, so the next source is used.
+ *
+ * Stops early on an error that outlasts the retries and reports it, with
+ * the offset to resume from - pass that back as resumeFrom to continue.
  *
  * REQUIRES: Birdeye Starter tier or higher
  */
 export async function fetchAllHolders(
   tokenAddress: string,
   apiKey: string,
-  maxHolders: number = 10000
-): Promise<TokenHolder[]> {
-  const holders: TokenHolder[] = []
-  let offset = 0
+  onPage: HolderPageHandler,
+  resumeFrom?: string
+): Promise<PagedFetch> {
+  let offset = resumeFrom ? Number(resumeFrom) : 0
   const limit = 100 // Birdeye page size
+  const resumed = resumeFrom !== undefined
+  let pages = 0
+  let fetched = 0
+  let total: number | undefined
+  let complete = false
 
-  console.log(`[birdeye] Fetching holders for ${tokenAddress}...`)
+  console.log(`[birdeye] Fetching holders for ${tokenAddress}${resumed ? ` from offset ${offset}` : ''}...`)
 
-  while (offset < maxHolders) {
-    try {
-      const url = `${BIRDEYE_BASE}/defi/v3/token/holder?address=${tokenAddress}&offset=${offset}&limit=${limit}`
+  const stop = (error: string): PagedFetch => {
+    console.error(`[birdeye] Stopped at offset ${offset}: ${error}`)
+    return { total, report: { complete: false, pages, cursor: String(offset), error, resumed } }
+  }
+
+  while (offset < MAX_OFFSET) {
+    const url = `${BIRDEYE_BASE}/defi/v3/token/holder?address=${tokenAddress}&offset=${offset}&limit=${limit}`
 
-      const response = await fetch(url, {
+    let response: Response
+    try {
+      response = await fetchWithRetry('birdeye', url, {
         headers: {
           'Accept': 'application/json',
           'X-API-KEY': apiKey,
           'x-chain': 'solana',
         },
       })
+    } catch (error) {
+      return stop(error instanceof Error ? error.message : String(error))
+    }
 
-      if (response.status === 404) {
-        console.error(`[birdeye] 404 error - holder endpoint requires Starter tier or higher`)
-        throw new Error('Birdeye holder API requires Starter tier or higher. Upgrade at birdeye.so')
-      }
-
-      if (!response.ok) {
-        const text = await response.text()
-        console.error(`[birdeye] Failed at offset ${offset}: ${response.status} - ${text}`)
-        break
-      }
-
-      const data: HolderListResponse = await response.json()
+    if (response.status === 404) {
+      console.error(`[birdeye] 404 error - holder endpoint requires Starter tier or higher`)
+      throw new Error('Birdeye holder API requires Starter tier or higher. Upgrade at birdeye.so')
+    }
 
-      if (!data.success || !data.data?.items?.length) {
-        console.log(`[birdeye] No more holders at offset ${offset}`)
-        break
-      }
+    if (!response.ok) {
+      return stop(`${response.status} - ${await response.text()}`)
+    }
 
-      for (const item of data.data.items) {
-        holders.push({
-          owner: item.owner,
-          balance: item.ui_amount,
-          percentage: 0, // Will calculate later
-        })
-      }
+    const data: HolderListResponse = await response.json()
+    pages++
 
-      console.log(`[birdeye] Fetched ${holders.length} holders...`)
+    if (!data.success) {
+      return stop('Birdeye returned success: false')
+    }
 
-      if (data.data.items.length < limit) {
-        // Last page
-        break
-      }
+    total = data.data?.total ?? total
+    const items = data.data?.items ?? []
+    if (items.length === 0) {
+      console.log(`[birdeye] No more holders at offset ${offset}`)
+      complete = true
+      break
+    }
 
-      offset += limit
+    offset += limit
+    fetched += items.length
+    await onPage(items.map(item => ({ owner: item.owner, amount: item.amount })), String(offset))
 
-      // Rate limit: 50ms between requests
-      await new Promise(resolve => setTimeout(resolve, 50))
+    console.log(`[birdeye] Fetched ${fetched} holders...`)
 
-    } catch (error) {
-      console.error(`[birdeye] Error at offset ${offset}:`, error)
-      throw error
+    if (items.length < limit || (total !== undefined && offset >= total)) {
+      // Last page
+      complete = true
+      break
     }
   }
 
-  console.log(`[birdeye] Total holders fetched: ${holders.length}`)
-  return holders
+  if (!complete) {
+    return stop(`Birdeye only lists the top ${MAX_OFFSET} holders${total !== undefined ? ` of ${total}` : ''}`)
+  }
+
+  console.log(`[birdeye] Total holders fetched: ${fetched}`)
+  return { total, report: { complete: true, pages, resumed } }
 }
 
 /**
@@ -119,7 +135,7 @@ export async function getTokenOverview(
   try {
     const url = `${BIRDEYE_BASE}/defi/token_overview?address=${tokenAddress}`
 
-    const response = await fetch(url, {
+    const response = await fetchWithRetry('birdeye', url, {
       headers: {
         'Accept': 'application/json',
         'X-API-KEY': apiKey,
@@ -137,7 +153,7 @@ export async function getTokenOverview(
       symbol: data.data?.symbol || 'UNKNOWN',
       name: data.data?.name || 'Unknown Token',
       supply: data.data?.supply || 0,
-      decimals: data.data?.decimals || 9,
+      decimals: data.data?.decimals ?? 9,
     }
   } catch {
     return null
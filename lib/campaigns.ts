@@ -0,0 +1,162 @@
+/**
+ * Campaign registry
+ * A campaign is one lottery for one token: its mint, ticket rules, prize
+ * description and schedule. Several campaigns can run from the same
+ * deployment, each under /[slug] and /api/campaigns/[slug]. Its exclusion
+ * list is kept by lib/exclusions under the same slug.
+ */
+
+import { decodeBase58, PrizeTier, validatePrizeTiers } from './lottery'
+import { DEFAULT_RULES, LotteryRules, validateRules } from './rules'
+import { SOURCE_NAMES, SourceName } from './sources'
+import { listRecords, readRecord, writeRecord } from './store'
+
+const COLLECTION = 'campaigns'
+
+// Token of the home page's lottery
+export const TOKEN_MINT = '3hYAvLUn8rPdSmJkQDNC8GRhdK4add1H44rHivPDBAGS'
+
+// Lowercase so slugs work as URL path segments
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/
+
+// Top-level paths a campaign page must not shadow
+const RESERVED_SLUGS = new Set(['api', 'admin', 'campaigns', '_next'])
+
+export interface CampaignSchedule {
+  // ISO 8601 times, shown on the campaign page
+  snapshotAt?: string
+  drawAt?: string
+  note?: string
+}
+
+export interface Campaign {
+  slug: string
+  name: string
+  tokenMint: string
+  rules: LotteryRules
+  // Headline prize description, e.g. "$100,000 LOTTERY"
+  prize?: string
+  // Default prize tiers for this campaign's draws
+  prizeTiers?: PrizeTier[]
+  schedule?: CampaignSchedule
+  // Holder sources in the order to try them (defaults to HOLDER_SOURCES)
+  sources?: SourceName[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface CampaignInput {
+  slug: string
+  name: string
+  tokenMint: string
+  // Merged over the default rules
+  rules?: Partial<LotteryRules>
+  prize?: string
+  prizeTiers?: PrizeTier[]
+  schedule?: CampaignSchedule
+  sources?: SourceName[]
+}
+
+export type CampaignUpdate =
+  | { ok: true; campaign: Campaign }
+  | { ok: false; error: string; status: number }
+
+function isAddress(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 32
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a campaign definition, returning an error message or null
+ */
+export function validateCampaign(input: CampaignInput): string | null {
+  if (typeof input.slug !== 'string' || !SLUG_PATTERN.test(input.slug)) {
+    return 'slug must be lowercase letters, digits and dashes'
+  }
+  if (RESERVED_SLUGS.has(input.slug)) return `slug "${input.slug}" is reserved`
+  if (typeof input.name !== 'string' || !input.name) return 'name is required'
+  if (typeof input.tokenMint !== 'string' || !input.tokenMint) return 'tokenMint is required'
+  if (!isAddress(input.tokenMint)) return 'tokenMint must be a Solana address'
+
+  if (input.prizeTiers !== undefined) {
+    const error = validatePrizeTiers(input.prizeTiers)
+    if (error) return error
+  }
+
+  if (input.sources !== undefined) {
+    if (!Array.isArray(input.sources) || input.sources.length === 0) return 'sources must be a non-empty list'
+    const unknown = input.sources.find(s => !SOURCE_NAMES.includes(s))
+    if (unknown !== undefined) return `Unknown source "${unknown}" (expected ${SOURCE_NAMES.join(', ')})`
+  }
+
+  for (const field of ['snapshotAt', 'drawAt'] as const) {
+    const value = input.schedule?.[field]
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      return `schedule.${field} must be an ISO date`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Create or replace a campaign (createdAt is kept on update)
+ */
+export async function saveCampaign(input: CampaignInput): Promise<CampaignUpdate> {
+  const error = validateCampaign(input)
+  if (error) return { ok: false, error, status: 400 }
+
+  const rules: LotteryRules = { ...DEFAULT_RULES, ...input.rules }
+  const rulesError = validateRules(rules)
+  if (rulesError) return { ok: false, error: `Invalid rules: ${rulesError}`, status: 400 }
+
+  const existing = await getCampaign(input.slug)
+  const now = Date.now()
+
+  const campaign: Campaign = {
+    slug: input.slug,
+    name: input.name,
+    tokenMint: input.tokenMint,
+    rules,
+    prize: input.prize,
+    prizeTiers: input.prizeTiers,
+    schedule: input.schedule,
+    sources: input.sources,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+
+  await writeRecord(COLLECTION, campaign.slug, campaign)
+  console.log(`[campaigns] ${existing ? 'Updated' : 'Created'} ${campaign.slug} for ${campaign.tokenMint}`)
+  return { ok: true, campaign }
+}
+
+export async function getCampaign(slug: string): Promise<Campaign | null> {
+  return readRecord<Campaign>(COLLECTION, slug)
+}
+
+/**
+ * List campaigns, newest first
+ */
+export async function listCampaigns(): Promise<Campaign[]> {
+  const slugs = await listRecords(COLLECTION)
+  const campaigns: Campaign[] = []
+
+  for (const slug of slugs) {
+    const campaign = await getCampaign(slug)
+    if (campaign) campaigns.push(campaign)
+  }
+
+  return campaigns.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Whether a mint is the home page's token or a campaign's
+ */
+export async function isLotteryMint(tokenMint: string): Promise<boolean> {
+  if (tokenMint === TOKEN_MINT) return true
+  return (await listCampaigns()).some(c => c.tokenMint === tokenMint)
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildClassifierConfig, classifyTransfer, EXCHANGE_ADDRESSES, isSale } from './classifier'
+import type { ParsedTransaction, TokenTransfer } from './helius'
+
+const MINT = 'Mint1111111111111111111111111111111111111111'
+const WALLET = 'Wallet111111111111111111111111111111111111'
+const LINKED = 'Linked111111111111111111111111111111111111'
+const VAULT = 'Vault1111111111111111111111111111111111111'
+const OTHER = 'Other1111111111111111111111111111111111111'
+const EXCHANGE = Array.from(EXCHANGE_ADDRESSES)[0]
+
+process.env.PROGRAM_DEPOSIT_ADDRESSES = VAULT
+const config = () => buildClassifierConfig([[WALLET, LINKED]])
+
+// An outgoing transfer of the token from WALLET and the transaction carrying it
+function outgoing(to: string, tx: Partial<ParsedTransaction> = {}): [ParsedTransaction, TokenTransfer] {
+  const transfer = { mint: MINT, fromUserAccount: WALLET, toUserAccount: to, tokenAmount: 100 }
+  return [{ signature: 'sig', timestamp: 1, type: 'TRANSFER', tokenTransfers: [transfer], ...tx }, transfer]
+}
+
+describe('classifyTransfer', () => {
+  const classify = (to: string, tx?: Partial<ParsedTransaction>) => {
+    const [parsed, transfer] = outgoing(to, tx)
+    return classifyTransfer(parsed, transfer, WALLET, config())
+  }
+
+  it('finds swaps by type, DEX source or something received back', () => {
+    assert.equal(classify(OTHER, { type: 'SWAP' }), 'dex_swap')
+    assert.equal(classify(OTHER, { source: 'JUPITER' }), 'dex_swap')
+
+    const [tx, transfer] = outgoing(OTHER)
+    tx.tokenTransfers?.push({ mint: 'So11111111111111111111111111111111111111112', fromUserAccount: OTHER, toUserAccount: WALLET, tokenAmount: 1 })
+    assert.equal(classifyTransfer(tx, transfer, WALLET, config()), 'dex_swap')
+  })
+
+  it('finds exchange deposits', () => {
+    assert.equal(classify(EXCHANGE), 'exchange_deposit')
+  })
+
+  it('lets moves to the same or a linked wallet through', () => {
+    assert.equal(classify(WALLET), 'linked_wallet')
+    assert.equal(classify(LINKED), 'linked_wallet')
+  })
+
+  it('lets program deposits through, by vault or transaction type', () => {
+    assert.equal(classify(VAULT), 'program_deposit')
+    for (const type of ['STAKE_TOKEN', 'DEPOSIT', 'LOCK']) {
+      assert.equal(classify(OTHER, { type }), 'program_deposit')
+    }
+  })
+
+  it('counts anything else as a transfer out, whatever the type', () => {
+    assert.equal(classify(OTHER), 'transfer')
+    assert.equal(classify(OTHER, { type: 'UNKNOWN' }), 'transfer')
+    assert.equal(classify(OTHER, { type: 'NFT_SALE' }), 'transfer')
+  })
+})
+
+describe('isSale', () => {
+  it('only lets linked wallet moves and program deposits through', () => {
+    assert.deepEqual(
+      (['dex_swap', 'exchange_deposit', 'transfer', 'linked_wallet', 'program_deposit'] as const).map(isSale),
+      [true, true, true, false, false]
+    )
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Outgoing transfer classifier
+ *
+ * Not every token movement out of a wallet is a sale. This sorts an
+ * outgoing transfer of the lottery token into:
+ *
+ * - dex_swap:         swapped on a DEX (sale - disqualifies)
+ * - exchange_deposit: sent to a known exchange wallet (sale - disqualifies)
+ * - linked_wallet:    moved to the same wallet or a declared linked wallet (benign)
+ * - program_deposit:  deposited into a staking/locker program (benign)
+ * - transfer:         sent to anyone else (disqualifies)
+ */
+
+import type { ParsedTransaction, TokenTransfer } from './helius'
+
+export type TransferKind =
+  | 'dex_swap'
+  | 'exchange_deposit'
+  | 'linked_wallet'
+  | 'program_deposit'
+  | 'transfer'
+
+export type SaleKind = Exclude<TransferKind, 'linked_wallet' | 'program_deposit'>
+
+export interface ClassifierConfig {
+  // Wallet -> every wallet in its declared group (including itself)
+  linkedWallets: Map<string, Set<string>>
+  exchangeAddresses: Set<string>
+  programDepositAddresses: Set<string>
+}
+
+/**
+ * Known exchange hot wallets - deposits are swept here
+ * Extend with EXCHANGE_ADDRESSES (comma-separated)
+ */
+export const EXCHANGE_ADDRESSES = new Set([
+  // Binance
+  '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9',
+  // Coinbase
+  'H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS',
+  '2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm',
+  // Kraken
+  'FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5',
+  // OKX
+  '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD',
+  // Bybit
+  'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2',
+])
+
+// Helius `source` values for DEX and aggregator transactions
+const DEX_SOURCES = new Set([
+  'JUPITER',
+  'RAYDIUM',
+  'ORCA',
+  'METEORA',
+  'PUMP_FUN',
+  'PUMP_AMM',
+  'LIFINITY',
+  'PHOENIX',
+  'OPENBOOK',
+])
+
+// Helius transaction types for deposits into programs
+const PROGRAM_DEPOSIT_TYPES = new Set(['STAKE_TOKEN', 'DEPOSIT', 'LOCK'])
+
+function parseAddressList(value: string | undefined): string[] {
+  return (value || '').split(',').map(a => a.trim()).filter(Boolean)
+}
+
+/**
+ * Build a classifier config from linked wallet groups plus the
+ * EXCHANGE_ADDRESSES and PROGRAM_DEPOSIT_ADDRESSES env vars
+ */
+export function buildClassifierConfig(linkedGroups: string[][] = []): ClassifierConfig {
+  const linkedWallets = new Map<string, Set<string>>()
+  for (const group of linkedGroups) {
+    for (const wallet of group) {
+      const existing = linkedWallets.get(wallet) ?? new Set<string>()
+      group.forEach(w => existing.add(w))
+      linkedWallets.set(wallet, existing)
+    }
+  }
+
+  return {
+    linkedWallets,
+    exchangeAddresses: new Set([...EXCHANGE_ADDRESSES, ...parseAddressList(process.env.EXCHANGE_ADDRESSES)]),
+    programDepositAddresses: new Set(parseAddressList(process.env.PROGRAM_DEPOSIT_ADDRESSES)),
+  }
+}
+
+/**
+ * Whether a transfer kind counts as selling
+ */
+export function isSale(kind: TransferKind): kind is SaleKind {
+  return kind !== 'linked_wallet' && kind !== 'program_deposit'
+}
+
+/**
+ * Classify an outgoing transfer of the token from `wallet`
+ */
+export function classifyTransfer(
+  tx: ParsedTransaction,
+  transfer: TokenTransfer,
+  wallet: string,
+  config: ClassifierConfig
+): TransferKind {
+  const destination = transfer.toUserAccount
+
+  // Swaps: typed as such by Helius, routed through a DEX, or the wallet got
+  // something else back in the same transaction
+  const receivedOther = (tx.tokenTransfers || []).some(
+    t => t.toUserAccount === wallet && t.mint !== transfer.mint
+  )
+
+  if (tx.type === 'SWAP' || (tx.source && DEX_SOURCES.has(tx.source)) || receivedOther) {
+    return 'dex_swap'
+  }
+
+  if (config.exchangeAddresses.has(destination)) return 'exchange_deposit'
+
+  if (destination === wallet || config.linkedWallets.get(wallet)?.has(destination)) {
+    return 'linked_wallet'
+  }
+
+  if (config.programDepositAddresses.has(destination) || PROGRAM_DEPOSIT_TYPES.has(tx.type)) {
+    return 'program_deposit'
+  }
+
+  return 'transfer'
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applyClusters, detectClusters, WalletCluster } from './clusters'
+import type { Eligibility, LotteryEntry } from './lottery'
+import { DEFAULT_RULES } from './rules'
+
+const WALLETS = ['A', 'B', 'C', 'D']
+
+// Eligibility for each wallet with the given funder
+function fundedBy(funders: Record<string, string>): Map<string, Eligibility> {
+  return new Map(WALLETS.map(w => [w, { eligible: true, links: funders[w] ? { fundedBy: funders[w] } : {} }]))
+}
+
+describe('detectClusters', () => {
+  it('groups wallets funded by the same wallet', () => {
+    const clusters = detectClusters(WALLETS, fundedBy({ A: 'F', B: 'F', C: 'G' }))
+    assert.deepEqual(clusters.map(c => c.wallets), [['A', 'B']])
+    assert.deepEqual(clusters[0].signals, [{ type: 'funder', source: 'F' }])
+  })
+
+  it('ignores exchanges and funders of many wallets', () => {
+    const funders = { A: 'F', B: 'F', C: 'F', D: 'F' }
+    assert.deepEqual(detectClusters(WALLETS, fundedBy(funders), { ignore: new Set(['F']) }), [])
+    assert.deepEqual(detectClusters(WALLETS, fundedBy(funders), { maxFundedWallets: 3 }), [])
+  })
+
+  it('groups wallets sent the token by one wallet within the window', () => {
+    const sentAt = (at: number) => ({ eligible: true, links: { tokenSenders: [{ from: 'S', at }] } })
+    const eligibility = new Map([['A', sentAt(0)], ['B', sentAt(3_000)], ['C', sentAt(6_000)], ['D', sentAt(20_000)]])
+
+    const clusters = detectClusters(WALLETS, eligibility)
+    assert.deepEqual(clusters.map(c => c.wallets), [['A', 'B', 'C']])
+    assert.deepEqual(clusters[0].signals, [{ type: 'sender', source: 'S' }])
+  })
+
+  it('groups declared linked wallets that hold the token', () => {
+    const clusters = detectClusters(WALLETS, fundedBy({}), { linkedGroups: [['B', 'D', 'Elsewhere']] })
+    assert.deepEqual(clusters.map(c => c.wallets), [['B', 'D']])
+    assert.equal(clusters[0].id, detectClusters(['D', 'B'], fundedBy({}), { linkedGroups: [['D', 'B']] })[0].id)
+  })
+})
+
+describe('applyClusters', () => {
+  const entry = (wallet: string, tickets: number, eligible = true): LotteryEntry =>
+    ({ wallet, amount: String(tickets * 10_000_000_000), tickets, eligible })
+  const entries = [entry('A', 1_500), entry('B', 1_500), entry('C', 500, false), entry('D', 100)]
+  const cluster: WalletCluster = { id: 'c1', wallets: ['A', 'B', 'C'], signals: [{ type: 'funder', source: 'F' }] }
+
+  it('tags members and shares maxTickets with clusterCap', () => {
+    const applied = applyClusters(entries, [cluster], { ...DEFAULT_RULES, clusterCap: true })
+    assert.deepEqual(applied.entries.map(e => [e.wallet, e.tickets, e.cluster, e.clusterTickets]), [
+      ['A', 1_000, 'c1', 3_000],
+      ['B', 1_000, 'c1', 3_000],
+      ['C', 500, undefined, undefined],
+      ['D', 100, undefined, undefined],
+    ])
+    assert.deepEqual(applied.clusters.map(c => [c.totalTickets, c.cappedTickets]), [[3_000, 2_000]])
+  })
+
+  it('only tags members without clusterCap', () => {
+    const applied = applyClusters(entries, [cluster], DEFAULT_RULES)
+    assert.deepEqual(applied.entries.map(e => [e.tickets, e.cluster]).slice(0, 2), [[1_500, 'c1'], [1_500, 'c1']])
+  })
+
+  it('leaves dismissed clusters alone', () => {
+    const dismissed = { ...cluster, review: { clusterId: 'c1', status: 'dismissed' as const, reviewedBy: 'admin', reviewedAt: 1 } }
+    const applied = applyClusters(entries, [dismissed], { ...DEFAULT_RULES, clusterCap: true })
+    assert.deepEqual(applied.entries, entries)
+  })
+})
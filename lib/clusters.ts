@@ -0,0 +1,289 @@
+/**
+ * Wallet cluster (sybil) detection
+ *
+ * Splitting a bag across several wallets multiplies the per-wallet ticket
+ * cap. Wallets are grouped into one cluster when they:
+ * - were funded with SOL by the same wallet ('funder')
+ * - received the token by plain transfer from the same wallet within a
+ *   short window of each other ('sender')
+ * - are declared linked wallets ('linked', see lib/linked-wallets.ts)
+ *
+ * Exchanges are ignored as funders and senders - thousands of unrelated
+ * holders withdraw from the same hot wallets. So are funders of more than
+ * maxFundedWallets holders (faucets, bots and airdrop spammers), and SOL
+ * transfers too small to fund a wallet never count. The signals come from
+ * the history scan in lib/helius.ts (Eligibility.links).
+ *
+ * Clusters are flagged in the analysis and saved per token for admin review.
+ * With rules.clusterCap, every cluster not dismissed by an admin shares one
+ * maxTickets cap (clusterCappedTickets in lib/rules.ts).
+ */
+
+import { createHash } from 'crypto'
+import type { Eligibility, LotteryEntry } from './lottery'
+import { clusterCappedTickets, LotteryRules } from './rules'
+import { listRecords, readRecord, writeRecord } from './store'
+
+const FLAGGED_COLLECTION = 'clusters'
+const REVIEW_COLLECTION = 'cluster-reviews'
+
+// Token transfers from one sender this close together link the receivers
+export const DEFAULT_SENDER_WINDOW_SECONDS = 60 * 60
+// A funder of more holders than this is a service or spammer, not one holder
+export const DEFAULT_MAX_FUNDED_WALLETS = 20
+
+export type ClusterSignalType = 'funder' | 'sender' | 'linked'
+
+export interface ClusterSignal {
+  type: ClusterSignalType
+  // Shared funder or sender (absent for linked groups)
+  source?: string
+}
+
+export interface WalletCluster {
+  // Derived from the sorted member list, so the same wallets get the same id
+  id: string
+  wallets: string[]
+  signals: ClusterSignal[]
+  // Filled in once entries are built
+  totalAmount?: string
+  totalTickets?: number
+  cappedTickets?: number
+  review?: ClusterReview
+}
+
+export type ClusterReviewStatus = 'confirmed' | 'dismissed'
+
+export interface ClusterReview {
+  clusterId: string
+  status: ClusterReviewStatus
+  note?: string
+  reviewedBy: string
+  reviewedAt: number
+}
+
+export interface ClusterOptions {
+  linkedGroups?: string[][]
+  // Funders and senders to ignore (exchanges)
+  ignore?: Set<string>
+  senderWindowSeconds?: number
+  maxFundedWallets?: number
+}
+
+/**
+ * Whether cluster detection runs - set CLUSTER_CHECK=off to skip it
+ */
+export function clusterCheckEnabled(): boolean {
+  return process.env.CLUSTER_CHECK !== 'off'
+}
+
+/**
+ * Stable cluster id for a set of wallets
+ */
+export function clusterId(wallets: string[]): string {
+  const sorted = [...wallets].sort()
+  return createHash('sha256').update(sorted.join(',')).digest('hex').slice(0, 16)
+}
+
+/**
+ * Group wallets into clusters of two or more
+ */
+export function detectClusters(
+  wallets: string[],
+  eligibility: Map<string, Eligibility>,
+  options: ClusterOptions = {}
+): WalletCluster[] {
+  const {
+    linkedGroups = [],
+    ignore = new Set<string>(),
+    senderWindowSeconds = DEFAULT_SENDER_WINDOW_SECONDS,
+    maxFundedWallets = DEFAULT_MAX_FUNDED_WALLETS,
+  } = options
+  const members = new Set(wallets)
+
+  // Union-find over wallets
+  const parent = new Map(wallets.map(w => [w, w]))
+  const find = (w: string): string => {
+    let root = w
+    while (parent.get(root) !== root) root = parent.get(root) as string
+    parent.set(w, root)
+    return root
+  }
+
+  const edges: Array<{ a: string; b: string; signal: ClusterSignal }> = []
+  const link = (a: string, b: string, signal: ClusterSignal) => {
+    if (a === b) return
+    edges.push({ a, b, signal })
+    parent.set(find(a), find(b))
+  }
+
+  // Same funder
+  const byFunder = new Map<string, string[]>()
+  for (const wallet of wallets) {
+    const funder = eligibility.get(wallet)?.links?.fundedBy
+    if (!funder || ignore.has(funder) || funder === wallet) continue
+    byFunder.set(funder, [...(byFunder.get(funder) ?? []), wallet])
+  }
+  for (const [funder, funded] of byFunder) {
+    if (funded.length > maxFundedWallets) {
+      console.log(`[clusters] Ignoring funder ${funder} of ${funded.length} wallets`)
+      continue
+    }
+    for (let i = 1; i < funded.length; i++) link(funded[0], funded[i], { type: 'funder', source: funder })
+  }
+
+  // Same token sender within the window
+  const bySender = new Map<string, Array<{ wallet: string; at: number }>>()
+  for (const wallet of wallets) {
+    for (const { from, at } of eligibility.get(wallet)?.links?.tokenSenders ?? []) {
+      if (ignore.has(from)) continue
+      bySender.set(from, [...(bySender.get(from) ?? []), { wallet, at }])
+    }
+  }
+  for (const [sender, receipts] of bySender) {
+    receipts.sort((a, b) => a.at - b.at)
+    for (let i = 1; i < receipts.length; i++) {
+      if (receipts[i].at - receipts[i - 1].at <= senderWindowSeconds) {
+        link(receipts[i - 1].wallet, receipts[i].wallet, { type: 'sender', source: sender })
+      }
+    }
+  }
+
+  // Declared linked wallets
+  for (const group of linkedGroups) {
+    const held = group.filter(w => members.has(w))
+    for (let i = 1; i < held.length; i++) link(held[0], held[i], { type: 'linked' })
+  }
+
+  // Collect components with more than one wallet
+  const components = new Map<string, string[]>()
+  for (const wallet of wallets) {
+    const root = find(wallet)
+    components.set(root, [...(components.get(root) ?? []), wallet])
+  }
+
+  const clusters: WalletCluster[] = []
+  for (const [root, group] of components) {
+    if (group.length < 2) continue
+
+    const signals = new Map<string, ClusterSignal>()
+    for (const edge of edges) {
+      if (find(edge.a) === root) signals.set(`${edge.signal.type}:${edge.signal.source ?? ''}`, edge.signal)
+    }
+
+    const sorted = group.sort()
+    clusters.push({ id: clusterId(sorted), wallets: sorted, signals: Array.from(signals.values()) })
+  }
+
+  if (clusters.length > 0) {
+    console.log(`[clusters] Flagged ${clusters.length} clusters covering ${clusters.reduce((n, c) => n + c.wallets.length, 0)} wallets`)
+  }
+
+  return clusters.sort((a, b) => b.wallets.length - a.wallets.length)
+}
+
+/**
+ * Tag entries with their cluster and, with rules.clusterCap, share maxTickets
+ * across each cluster. Dismissed clusters are left alone.
+ * Only eligible entries count towards a cluster.
+ */
+export function applyClusters(
+  entries: LotteryEntry[],
+  clusters: WalletCluster[],
+  rules: LotteryRules
+): { entries: LotteryEntry[]; clusters: WalletCluster[] } {
+  const clusterOf = new Map<string, WalletCluster>()
+  for (const cluster of clusters) {
+    if (cluster.review?.status === 'dismissed') continue
+    for (const wallet of cluster.wallets) clusterOf.set(wallet, cluster)
+  }
+
+  const totals = new Map<string, { amount: bigint; tickets: number }>()
+  for (const entry of entries) {
+    const cluster = clusterOf.get(entry.wallet)
+    if (!cluster || !entry.eligible) continue
+    const total = totals.get(cluster.id) ?? { amount: BigInt(0), tickets: 0 }
+    totals.set(cluster.id, { amount: total.amount + BigInt(entry.amount), tickets: total.tickets + entry.tickets })
+  }
+
+  const tagged = entries.map(entry => {
+    const cluster = clusterOf.get(entry.wallet)
+    if (!cluster || !entry.eligible) return entry
+
+    const clusterTickets = (totals.get(cluster.id) as { tickets: number }).tickets
+    if (!rules.clusterCap) return { ...entry, cluster: cluster.id }
+
+    return {
+      ...entry,
+      tickets: clusterCappedTickets(entry.tickets, clusterTickets, rules),
+      cluster: cluster.id,
+      clusterTickets,
+    }
+  })
+
+  const summarized = clusters.map(cluster => {
+    const total = totals.get(cluster.id)
+    if (!total) return cluster
+
+    const cappedTickets = tagged
+      .filter(e => e.cluster === cluster.id)
+      .reduce((sum, e) => sum + e.tickets, 0)
+    return { ...cluster, totalAmount: total.amount.toString(), totalTickets: total.tickets, cappedTickets }
+  })
+
+  return { entries: tagged, clusters: summarized }
+}
+
+// =============================================================================
+// FLAGGED CLUSTERS AND REVIEWS
+// =============================================================================
+
+interface FlaggedClustersRecord {
+  tokenMint: string
+  analyzedAt: number
+  clusters: WalletCluster[]
+}
+
+/**
+ * Save the clusters flagged by the latest analysis of a token
+ */
+export async function saveFlaggedClusters(tokenMint: string, clusters: WalletCluster[]): Promise<void> {
+  await writeRecord(FLAGGED_COLLECTION, tokenMint, { tokenMint, analyzedAt: Date.now(), clusters })
+}
+
+/**
+ * Latest flagged clusters for a token, with their current reviews
+ */
+export async function getFlaggedClusters(tokenMint: string): Promise<FlaggedClustersRecord | null> {
+  const record = await readRecord<FlaggedClustersRecord>(FLAGGED_COLLECTION, tokenMint)
+  if (!record) return null
+
+  const reviews = await listClusterReviews()
+  return {
+    ...record,
+    clusters: record.clusters.map(c => ({ ...c, review: reviews.get(c.id) })),
+  }
+}
+
+/**
+ * Record an admin's decision on a flagged cluster
+ * Reviews belong to the exact set of wallets - if the cluster changes, so does its id
+ */
+export async function saveClusterReview(review: Omit<ClusterReview, 'reviewedAt'>): Promise<ClusterReview> {
+  const saved: ClusterReview = { ...review, reviewedAt: Date.now() }
+  await writeRecord(REVIEW_COLLECTION, review.clusterId, saved)
+  console.log(`[clusters] ${review.clusterId} ${review.status} by ${review.reviewedBy}`)
+  return saved
+}
+
+export async function listClusterReviews(): Promise<Map<string, ClusterReview>> {
+  const ids = await listRecords(REVIEW_COLLECTION)
+  const reviews = new Map<string, ClusterReview>()
+
+  for (const id of ids) {
+    const review = await readRecord<ClusterReview>(REVIEW_COLLECTION, id)
+    if (review) reviews.set(id, review)
+  }
+
+  return reviews
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+import { createSnapshot, pickWinnerVerifiable } from './lottery'
+import { DEFAULT_RULES } from './rules'
+
+const BLOCK_HASH = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'
+
+describe('draw transitions', () => {
+  // The store reads BAGSLOTTO_DATA_DIR on load, so modules are imported
+  // once it points at a scratch directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'bagslotto-test-'))
+  let draws: typeof import('./draws')
+  let store: typeof import('./store')
+
+  before(async () => {
+    process.env.BAGSLOTTO_DATA_DIR = dataDir
+    draws = await import('./draws')
+    store = await import('./store')
+  })
+
+  after(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  // A draw resolved against a three-wallet snapshot
+  async function resolvedDraw() {
+    const { saveSnapshot } = await import('./snapshots')
+    const entries = ['Alice', 'Bob', 'Carol'].map((wallet, i) => ({
+      wallet, amount: String((i + 1) * 10_000_000_000), tickets: i + 1, eligible: true,
+    }))
+    const snapshot = createSnapshot(entries, 'mint', 6, DEFAULT_RULES, 100)
+    const stored = await saveSnapshot(snapshot)
+
+    const draw = await draws.createDraw('mint')
+    const resolved = {
+      ...draw,
+      status: 'resolved' as const,
+      snapshotId: stored.id,
+      blockHash: BLOCK_HASH,
+      result: pickWinnerVerifiable(snapshot.entries, BLOCK_HASH, 200) ?? undefined,
+    }
+    await store.writeRecord('draws', draw.id, resolved)
+    return resolved
+  }
+
+  it('commits a transition once when requested concurrently', async () => {
+    const draw = await resolvedDraw()
+    const results = await Promise.all([draws.verifyDraw(draw.id), draws.verifyDraw(draw.id), draws.verifyDraw(draw.id)])
+
+    assert.equal(results.filter(r => r.ok).length, 1)
+    for (const result of results.filter(r => !r.ok)) {
+      assert.deepEqual(result, { ok: false, error: 'Draw is already verified', status: 409 })
+    }
+
+    const stored = await draws.getDraw(draw.id)
+    assert.equal(stored?.status, 'verified')
+    assert.deepEqual(stored?.transitions.map(t => t.to), ['draft', 'verified'])
+  })
+
+  it('rolls forward a transition whose draw write never happened', async () => {
+    const draw = await resolvedDraw()
+    const verified = { ...draw, status: 'verified' as const }
+    await store.createRecord('draw-transitions', `${draw.id}-verified`, verified)
+
+    assert.equal((await draws.getDraw(draw.id))?.status, 'verified')
+    assert.deepEqual(await draws.verifyDraw(draw.id), {
+      ok: false,
+      error: 'Cannot move draw from verified to verified',
+      status: 409,
+    })
+  })
+})
@@ -0,0 +1,355 @@
+/**
+ * Draw lifecycle
+ *
+ * draft -> snapshot_taken -> announced -> resolved -> verified
+ *
+ * 1. draft:          draw created for a token mint (optionally under a campaign)
+ * 2. snapshot_taken: eligible holders snapshotted and committed (lib/snapshots)
+ * 3. announced:      target slot fixed as "current slot + N"
+ * 4. resolved:       target slot finalized, its block hash picks the winner
+ * 5. verified:       result independently re-checked against the stored snapshot
+ *
+ * Every transition is persisted along with its timestamp. Each one commits
+ * exactly once: the draw as of the transition is created exclusively under
+ * the draw and its new status, so of two concurrent requests for the same
+ * transition one wins and the other gets a 409.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  createSnapshot,
+  LotteryResult,
+  MultiWinnerResult,
+  pickWinnersVerifiable,
+  pickWinnerVerifiable,
+  PrizeTier,
+  RemovalMode,
+  verifyResult,
+  verifyWinners,
+} from './lottery'
+import { getCampaign } from './campaigns'
+import { listManualExclusions } from './exclusions'
+import { AnalysisOptions, analyzeToken, incompleteFetchError } from './pipeline'
+import { getSnapshot, saveSnapshot } from './snapshots'
+import { configuredSources, HolderSource } from './sources'
+import { getCurrentSlot, getFinalizedBlockHash } from './solana'
+import { createRecord, listRecords, readRecord, writeRecord } from './store'
+
+const COLLECTION = 'draws'
+// The draw as of each committed transition
+const TRANSITIONS_COLLECTION = 'draw-transitions'
+
+// Default distance between the announcement and the target slot (~40s)
+export const DEFAULT_SLOT_OFFSET = 100
+
+export type DrawStatus = 'draft' | 'snapshot_taken' | 'announced' | 'resolved' | 'verified'
+
+const NEXT_STATUS: Record<DrawStatus, DrawStatus | null> = {
+  draft: 'snapshot_taken',
+  snapshot_taken: 'announced',
+  announced: 'resolved',
+  resolved: 'verified',
+  verified: null,
+}
+
+export interface DrawTransition {
+  from: DrawStatus | null
+  to: DrawStatus
+  at: number
+}
+
+export interface Draw {
+  id: string
+  tokenMint: string
+  status: DrawStatus
+  createdAt: number
+  updatedAt: number
+  // Campaign slug; its rules and exclusions apply to the snapshot
+  campaign?: string
+  announcementUrl?: string
+  // Multi-winner drawings: tiers in draw order and how winners leave the pool
+  prizeTiers?: PrizeTier[]
+  removal?: RemovalMode
+  // Set when the snapshot is taken
+  snapshotId?: string
+  snapshotSlot?: number
+  commitment?: string
+  merkleRoot?: string
+  // Set when announced
+  announcedAtSlot?: number
+  slotOffset?: number
+  targetSlot?: number
+  // Set when resolved
+  resolvedSlot?: number
+  blockHash?: string
+  // First prize (same as winners[0] for multi-winner drawings)
+  result?: LotteryResult
+  winners?: MultiWinnerResult
+  // Set when verified
+  verification?: {
+    valid: boolean
+    calculatedWinner: string
+    winningTicket: number
+    verifiedAt: number
+  }
+  transitions: DrawTransition[]
+}
+
+export type DrawUpdate =
+  | { ok: true; draw: Draw }
+  | { ok: false; error: string; status: number }
+
+function transitionId(id: string, to: DrawStatus): string {
+  return `${id}-${to}`
+}
+
+/**
+ * Move a draw to its next status and persist it - a 409 if another request
+ * made the same transition first
+ */
+async function advance(draw: Draw, to: DrawStatus, changes: Partial<Draw>): Promise<DrawUpdate> {
+  const now = Date.now()
+  const updated: Draw = {
+    ...draw,
+    ...changes,
+    status: to,
+    updatedAt: now,
+    transitions: [...draw.transitions, { from: draw.status, to, at: now }],
+  }
+
+  if (!await createRecord(TRANSITIONS_COLLECTION, transitionId(draw.id, to), updated)) {
+    console.log(`[draws] ${draw.id}: ${draw.status} -> ${to} was already made by another request`)
+    return { ok: false, error: `Draw is already ${to}`, status: 409 }
+  }
+
+  await writeRecord(COLLECTION, draw.id, updated)
+  console.log(`[draws] ${draw.id}: ${draw.status} -> ${to}`)
+  return { ok: true, draw: updated }
+}
+
+/**
+ * Load a draw and check it is in the status that allows moving to `to`
+ */
+async function loadForTransition(id: string, to: DrawStatus): Promise<DrawUpdate> {
+  const draw = await getDraw(id)
+  if (!draw) {
+    return { ok: false, error: 'Draw not found', status: 404 }
+  }
+
+  if (NEXT_STATUS[draw.status] !== to) {
+    return { ok: false, error: `Cannot move draw from ${draw.status} to ${to}`, status: 409 }
+  }
+
+  return { ok: true, draw }
+}
+
+/**
+ * Create a new draft draw
+ */
+export async function createDraw(
+  tokenMint: string,
+  options: { campaign?: string; announcementUrl?: string; prizeTiers?: PrizeTier[]; removal?: RemovalMode } = {}
+): Promise<Draw> {
+  const now = Date.now()
+  const draw: Draw = {
+    id: randomUUID(),
+    tokenMint,
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+    campaign: options.campaign,
+    announcementUrl: options.announcementUrl,
+    prizeTiers: options.prizeTiers,
+    removal: options.prizeTiers ? options.removal ?? 'wallet' : undefined,
+    transitions: [{ from: null, to: 'draft', at: now }],
+  }
+
+  await writeRecord(COLLECTION, draw.id, draw)
+  console.log(`[draws] Created ${draw.id} for ${tokenMint}`)
+  return draw
+}
+
+/**
+ * A draw, including a transition committed by a request that stopped
+ * before writing the draw itself
+ */
+export async function getDraw(id: string): Promise<Draw | null> {
+  const draw = await readRecord<Draw>(COLLECTION, id)
+  const next = draw && NEXT_STATUS[draw.status]
+  if (!draw || !next) return draw
+
+  const committed = await readRecord<Draw>(TRANSITIONS_COLLECTION, transitionId(id, next))
+  if (!committed) return draw
+
+  await writeRecord(COLLECTION, id, committed)
+  return committed
+}
+
+/**
+ * List draws, newest first, optionally only one campaign's
+ */
+export async function listDraws(campaign?: string): Promise<Draw[]> {
+  const ids = await listRecords(COLLECTION)
+  const draws: Draw[] = []
+
+  for (const id of ids) {
+    const draw = await getDraw(id)
+    if (draw && (campaign === undefined || draw.campaign === campaign)) draws.push(draw)
+  }
+
+  return draws.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * draft -> snapshot_taken
+ * Analyze the token and store a committed snapshot of eligible entries
+ * A campaign that names its own sources overrides the ones passed in
+ */
+export async function takeDrawSnapshot(id: string, sources: HolderSource[]): Promise<DrawUpdate> {
+  const loaded = await loadForTransition(id, 'snapshot_taken')
+  if (!loaded.ok) return loaded
+
+  let campaignOptions: AnalysisOptions = {}
+  if (loaded.draw.campaign) {
+    const campaign = await getCampaign(loaded.draw.campaign)
+    if (!campaign) {
+      return { ok: false, error: `Campaign ${loaded.draw.campaign} not found`, status: 404 }
+    }
+    campaignOptions = { rules: campaign.rules, manualExclusions: await listManualExclusions(campaign.slug) }
+    if (campaign.sources) sources = configuredSources(campaign.sources)
+  }
+
+  const analysis = await analyzeToken(loaded.draw.tokenMint, sources, { pinToSlot: true, ...campaignOptions })
+  if (!analysis.ok) return analysis
+
+  const incomplete = incompleteFetchError(analysis.analysis)
+  if (incomplete) return { ok: false, error: incomplete, status: 409 }
+
+  const { entries, token, rules, slot, exclusions, asOf } = analysis.analysis
+  const snapshot = createSnapshot(entries, loaded.draw.tokenMint, token.decimals, rules, slot, exclusions, asOf)
+  if (snapshot.totalTickets === 0) {
+    return { ok: false, error: 'Snapshot has no eligible tickets', status: 400 }
+  }
+
+  const stored = await saveSnapshot(snapshot)
+
+  return advance(loaded.draw, 'snapshot_taken', {
+    snapshotId: stored.id,
+    snapshotSlot: snapshot.slot,
+    commitment: stored.commitment,
+    merkleRoot: snapshot.merkleRoot,
+  })
+}
+
+/**
+ * snapshot_taken -> announced
+ * Fix the target slot as current slot + slotOffset
+ */
+export async function announceDraw(
+  id: string,
+  rpcUrl: string,
+  slotOffset: number = DEFAULT_SLOT_OFFSET
+): Promise<DrawUpdate> {
+  if (!Number.isSafeInteger(slotOffset) || slotOffset < 1) {
+    return { ok: false, error: 'slotOffset must be a positive integer', status: 400 }
+  }
+
+  const loaded = await loadForTransition(id, 'announced')
+  if (!loaded.ok) return loaded
+
+  const currentSlot = await getCurrentSlot(rpcUrl)
+
+  return advance(loaded.draw, 'announced', {
+    announcedAtSlot: currentSlot,
+    slotOffset,
+    targetSlot: currentSlot + slotOffset,
+  })
+}
+
+/**
+ * announced -> resolved
+ * Once the target slot is finalized, use its block hash to pick the winner
+ */
+export async function resolveDraw(id: string, rpcUrl: string): Promise<DrawUpdate> {
+  const loaded = await loadForTransition(id, 'resolved')
+  if (!loaded.ok) return loaded
+
+  const { draw: current } = loaded
+  const targetSlot = current.targetSlot as number
+
+  const block = await getFinalizedBlockHash(rpcUrl, targetSlot)
+  if (!block) {
+    return { ok: false, error: `Slot ${targetSlot} is not finalized yet`, status: 409 }
+  }
+
+  const stored = await getSnapshot(current.snapshotId as string)
+  if (!stored) {
+    return { ok: false, error: `Snapshot ${current.snapshotId} not found`, status: 500 }
+  }
+
+  const result = pickWinnerVerifiable(stored.snapshot.entries, block.blockHash, block.slot)
+  if (!result) {
+    return { ok: false, error: 'No winner could be picked', status: 500 }
+  }
+
+  const winners = current.prizeTiers
+    ? pickWinnersVerifiable(stored.snapshot.entries, block.blockHash, block.slot, current.prizeTiers, current.removal)
+    : null
+
+  return advance(current, 'resolved', {
+    resolvedSlot: block.slot,
+    blockHash: block.blockHash,
+    result,
+    ...(winners ? { winners } : {}),
+  })
+}
+
+/**
+ * resolved -> verified
+ * Re-run verifyResult against the stored snapshot
+ */
+export async function verifyDraw(id: string): Promise<DrawUpdate> {
+  const loaded = await loadForTransition(id, 'verified')
+  if (!loaded.ok) return loaded
+
+  const { draw: current } = loaded
+  const stored = await getSnapshot(current.snapshotId as string)
+  if (!stored) {
+    return { ok: false, error: `Snapshot ${current.snapshotId} not found`, status: 500 }
+  }
+
+  const check = verifyResult(
+    stored.snapshot,
+    current.blockHash as string,
+    current.result?.winner.wallet ?? ''
+  )
+
+  if (!check.valid) {
+    return {
+      ok: false,
+      error: `Verification failed: calculated winner ${check.calculatedWinner}`,
+      status: 409,
+    }
+  }
+
+  if (current.prizeTiers && current.winners) {
+    const listCheck = verifyWinners(
+      stored.snapshot,
+      current.blockHash as string,
+      current.prizeTiers,
+      current.winners.winners.map(w => w.wallet),
+      current.removal
+    )
+    if (!listCheck.valid) {
+      return {
+        ok: false,
+        error: `Verification failed: winners at ranks ${listCheck.mismatches.join(', ')} don't match`,
+        status: 409,
+      }
+    }
+  }
+
+  return advance(current, 'verified', {
+    verification: { ...check, verifiedAt: Date.now() },
+  })
+}
@@ -0,0 +1,101 @@
+/**
+ * Eligibility cache
+ * The result of each wallet's sell check is kept in the store per mint and
+ * wallet, together with the newest signature scanned. The next check only
+ * fetches transactions newer than that, so a refresh costs one history page
+ * per wallet instead of a full scan, and survives restarts and cold starts.
+ *
+ * A cached sale is final. A cached result is ignored when the classifier
+ * settings that decide what counts as a sale have changed for the wallet
+ * (its linked wallets, the exchange or program deposit lists).
+ */
+
+import { createHash } from 'crypto'
+import type { ClassifierConfig } from './classifier'
+import type { Eligibility } from './lottery'
+import { deleteRecord, listRecords, readRecord, writeRecord } from './store'
+
+const COLLECTION = 'eligibility'
+
+export interface CachedEligibility extends Eligibility {
+  tokenMint: string
+  wallet: string
+  // Newest signature scanned (results from before every transaction type
+  // was scanned have one per type instead, and get a full scan)
+  lastSignatures: Record<string, string>
+  // Fingerprint of the classifier settings used (classifierFingerprint)
+  classifier: string
+  checkedAt: number
+}
+
+function recordId(tokenMint: string, wallet: string): string {
+  return `${tokenMint}-${wallet}`
+}
+
+/**
+ * Fingerprint of the classifier settings that apply to a wallet
+ */
+export function classifierFingerprint(wallet: string, classifier: ClassifierConfig): string {
+  const sorted = (values: Iterable<string>) => Array.from(values).sort().join(',')
+  return createHash('sha256')
+    .update(sorted(classifier.linkedWallets.get(wallet) ?? []))
+    .update('|')
+    .update(sorted(classifier.exchangeAddresses))
+    .update('|')
+    .update(sorted(classifier.programDepositAddresses))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Cached result for a wallet, or null if there is none for these classifier settings
+ */
+export async function getCachedEligibility(
+  tokenMint: string,
+  wallet: string,
+  fingerprint: string
+): Promise<CachedEligibility | null> {
+  const cached = await readRecord<CachedEligibility>(COLLECTION, recordId(tokenMint, wallet))
+  if (!cached || cached.classifier !== fingerprint) return null
+  return cached
+}
+
+export async function saveEligibility(entry: Omit<CachedEligibility, 'checkedAt'>): Promise<void> {
+  await writeRecord(COLLECTION, recordId(entry.tokenMint, entry.wallet), { ...entry, checkedAt: Date.now() })
+}
+
+/**
+ * Drop cached results so the next check rescans from scratch:
+ * one wallet, every wallet of a mint, or everything. Returns how many.
+ */
+export async function invalidateEligibility(filter: { tokenMint?: string; wallet?: string } = {}): Promise<number> {
+  const { tokenMint, wallet } = filter
+
+  let ids: string[]
+  if (tokenMint && wallet) {
+    ids = [recordId(tokenMint, wallet)]
+  } else {
+    ids = (await listRecords(COLLECTION)).filter(id =>
+      (!tokenMint || id.startsWith(`${tokenMint}-`)) && (!wallet || id.endsWith(`-${wallet}`))
+    )
+  }
+
+  let removed = 0
+  for (const id of ids) {
+    if (await readRecord(COLLECTION, id)) {
+      await deleteRecord(COLLECTION, id)
+      removed++
+    }
+  }
+
+  console.log(`[eligibility] Invalidated ${removed} cached results${tokenMint ? ` for ${tokenMint}` : ''}${wallet ? ` (${wallet})` : ''}`)
+  return removed
+}
+
+/**
+ * Number of cached results, optionally for one mint
+ */
+export async function countCachedEligibility(tokenMint?: string): Promise<number> {
+  const ids = await listRecords(COLLECTION)
+  return tokenMint ? ids.filter(id => id.startsWith(`${tokenMint}-`)).length : ids.length
+}
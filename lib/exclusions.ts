@@ -0,0 +1,227 @@
+/**
+ * Holder exclusions
+ *
+ * A holder is excluded from the lottery when:
+ * 1. it is on a campaign's manual list (with a reason and who added it)
+ * 2. it is on the built-in list below (fee and dev wallets)
+ * 3. it is owned by a known AMM / launchpad program
+ * 4. it is off the ed25519 curve - a PDA, so no private key can sign for it.
+ *    Pool vaults are owned by authority PDAs like these.
+ *
+ * A manual "allow" entry overrides the automatic checks, e.g. for a multisig
+ * vault that really is one holder. Every exclusion applied to a holder is
+ * returned so it can be recorded in the snapshot.
+ */
+
+import { decodeBase58 } from './lottery'
+import { getAccountOwners } from './solana'
+import { readRecord, writeRecord } from './store'
+
+const COLLECTION = 'exclusions'
+
+export type ExclusionReason = 'manual' | 'builtin' | 'amm_program' | 'off_curve'
+
+export interface ManualExclusion {
+  address: string
+  reason: string
+  addedBy: string
+  addedAt: number
+  // Keep this holder in even if it is detected automatically
+  allow?: boolean
+}
+
+export interface AppliedExclusion {
+  address: string
+  reason: ExclusionReason
+  note: string
+  // Raw base-unit balance that was left out
+  amount: string
+  // Program that owns the holder account, when known
+  program?: string
+  addedBy?: string
+}
+
+/**
+ * Wallets that are always excluded
+ */
+export const BUILTIN_EXCLUSIONS: Record<string, string> = {
+  'CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM': 'Pump.fun fee wallet',
+  '36xH1EnLfUgenU8BBQN61Gn2JCE2gceBJDsGmSAzks3L': 'Dev wallet',
+  '5ZZZ6T7vimeuPbE2EfM9BrChLpzRhw2jsJzWFrsQCxcp': 'Blacklisted wallet',
+}
+
+/**
+ * Programs whose accounts hold pool liquidity rather than belonging to a holder
+ */
+export const AMM_PROGRAMS: Record<string, string> = {
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium AMM',
+  'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK': 'Raydium CLMM',
+  'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C': 'Raydium CPMM',
+  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc': 'Orca Whirlpool',
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'Pump.fun',
+  'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA': 'Pump.fun AMM',
+  'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo': 'Meteora DLMM',
+  'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB': 'Meteora Pools',
+  'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG': 'Meteora DAMM v2',
+  'dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN': 'Meteora Dynamic Bonding Curve',
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4': 'Jupiter Aggregator',
+}
+
+/**
+ * Check if an address is on the built-in list
+ */
+export function isExcludedAddress(address: string): boolean {
+  return address in BUILTIN_EXCLUSIONS
+}
+
+// =============================================================================
+// CURVE CHECK
+// =============================================================================
+//
+// An address is on the curve if it decodes to a valid ed25519 point
+// (RFC 8032, section 5.1.3): with y from the low 255 bits (little-endian),
+// x^2 = (y^2 - 1) / (d*y^2 + 1) mod p must have a square root.
+// PDAs are chosen to be off the curve.
+
+const P = BigInt(2) ** BigInt(255) - BigInt(19)
+
+function mod(a: bigint): bigint {
+  const r = a % P
+  return r < BigInt(0) ? r + P : r
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = BigInt(1)
+  base = mod(base)
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % P
+    base = (base * base) % P
+    exponent >>= BigInt(1)
+  }
+  return result
+}
+
+// d = -121665 / 121666
+const D = mod(BigInt(-121665) * modPow(BigInt(121666), P - BigInt(2)))
+
+/**
+ * Whether an address is a valid ed25519 public key (i.e. not a PDA)
+ */
+export function isOnCurve(address: string): boolean {
+  let bytes: Uint8Array
+  try {
+    bytes = decodeBase58(address)
+  } catch {
+    return false
+  }
+  if (bytes.length !== 32) return false
+
+  const sign = bytes[31] >> 7
+  let y = BigInt(0)
+  for (let i = 31; i >= 0; i--) {
+    y = (y << BigInt(8)) + BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i])
+  }
+  if (y >= P) return false
+
+  const y2 = (y * y) % P
+  const u = mod(y2 - BigInt(1))
+  const v = mod(D * y2 + BigInt(1))
+  const x2 = (u * modPow(v, P - BigInt(2))) % P
+
+  if (x2 === BigInt(0)) return sign === 0
+  // Euler's criterion: x2 is a square iff x2^((p-1)/2) = 1
+  return modPow(x2, (P - BigInt(1)) / BigInt(2)) === BigInt(1)
+}
+
+// =============================================================================
+// MANUAL LISTS (per campaign)
+// =============================================================================
+
+interface ManualExclusionRecord {
+  campaign: string
+  entries: ManualExclusion[]
+}
+
+export async function listManualExclusions(campaign: string): Promise<ManualExclusion[]> {
+  const record = await readRecord<ManualExclusionRecord>(COLLECTION, campaign)
+  return record?.entries ?? []
+}
+
+/**
+ * Add or replace a campaign's manual entry for an address
+ */
+export async function addManualExclusion(
+  campaign: string,
+  entry: Omit<ManualExclusion, 'addedAt'>
+): Promise<ManualExclusion> {
+  const entries = await listManualExclusions(campaign)
+  const saved: ManualExclusion = { ...entry, addedAt: Date.now() }
+
+  const next = entries.filter(e => e.address !== entry.address)
+  next.push(saved)
+
+  await writeRecord(COLLECTION, campaign, { campaign, entries: next })
+  console.log(`[exclusions] ${campaign}: ${entry.allow ? 'allowed' : 'excluded'} ${entry.address} (${entry.addedBy})`)
+  return saved
+}
+
+/**
+ * Remove a campaign's manual entry, returning false if there was none
+ */
+export async function removeManualExclusion(campaign: string, address: string): Promise<boolean> {
+  const entries = await listManualExclusions(campaign)
+  const next = entries.filter(e => e.address !== address)
+  if (next.length === entries.length) return false
+
+  await writeRecord(COLLECTION, campaign, { campaign, entries: next })
+  console.log(`[exclusions] ${campaign}: removed ${address}`)
+  return true
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Work out which holders to exclude and why
+ * Pass rpcUrl to also look up the program that owns each holder account
+ */
+export async function detectExclusions(
+  holders: Array<{ owner: string; amount: string }>,
+  options: { rpcUrl?: string; manual?: ManualExclusion[] } = {}
+): Promise<AppliedExclusion[]> {
+  const manual = new Map((options.manual ?? []).map(e => [e.address, e]))
+
+  const programs = options.rpcUrl
+    ? await getAccountOwners(options.rpcUrl, holders.map(h => h.owner))
+    : new Map<string, string | null>()
+
+  const applied: AppliedExclusion[] = []
+
+  for (const { owner, amount } of holders) {
+    const entry = manual.get(owner)
+    if (entry?.allow) continue
+
+    const program = programs.get(owner) ?? undefined
+
+    if (entry) {
+      applied.push({ address: owner, reason: 'manual', note: entry.reason, amount, program, addedBy: entry.addedBy })
+    } else if (isExcludedAddress(owner)) {
+      applied.push({ address: owner, reason: 'builtin', note: BUILTIN_EXCLUSIONS[owner], amount, program })
+    } else if (program && program in AMM_PROGRAMS) {
+      applied.push({ address: owner, reason: 'amm_program', note: `Owned by ${AMM_PROGRAMS[program]}`, amount, program })
+    } else if (!isOnCurve(owner)) {
+      applied.push({ address: owner, reason: 'off_curve', note: 'Program-derived address (no private key)', amount, program })
+    }
+  }
+
+  if (applied.length > 0) {
+    const counts = applied.reduce<Record<string, number>>((acc, e) => {
+      acc[e.reason] = (acc[e.reason] ?? 0) + 1
+      return acc
+    }, {})
+    console.log(`[exclusions] Excluding ${applied.length} holders: ${JSON.stringify(counts)}`)
+  }
+
+  return applied
+}
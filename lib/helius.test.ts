@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+import type { ParsedTransaction } from './helius'
+import { mockSource } from './mock-source'
+
+const MINT = 'Mint1111111111111111111111111111111111111111'
+const POOL = 'Poo11111111111111111111111111111111111111111'
+const OTHER = 'Other1111111111111111111111111111111111111'
+const FUNDER = 'Funder111111111111111111111111111111111111'
+const SPAMMER = 'Spammer11111111111111111111111111111111111'
+
+// A transaction of `type` moving `tokens` of the mint
+function tx(signature: string, timestamp: number, type: string, from: string, to: string, tokens = 1000): ParsedTransaction {
+  return { signature, timestamp, type, tokenTransfers: [{ mint: MINT, fromUserAccount: from, toUserAccount: to, tokenAmount: tokens }] }
+}
+
+// A plain SOL transfer of `lamports`
+function sol(signature: string, timestamp: number, from: string, to: string, lamports: number): ParsedTransaction {
+  return { signature, timestamp, type: 'TRANSFER', nativeTransfers: [{ fromUserAccount: from, toUserAccount: to, amount: lamports }] }
+}
+
+const source = mockSource({
+  metadata: { symbol: 'T', name: 'Test', decimals: 6 },
+  mintCreatedAt: 100,
+  holders: [],
+  histories: {
+    Holder: [tx('h1', 200, 'SWAP', POOL, 'Holder')],
+    Unknown: [tx('u1', 200, 'SWAP', POOL, 'Unknown'), tx('u2', 300, 'UNKNOWN', 'Unknown', OTHER)],
+    Staker: [tx('s1', 200, 'SWAP', POOL, 'Staker'), tx('s2', 300, 'STAKE_TOKEN', 'Staker', OTHER)],
+    Seller: [tx('x1', 200, 'TRANSFER', OTHER, 'Seller'), tx('x2', 300, 'SWAP', 'Seller', POOL)],
+    // Funded before the mint existed, then sent dust
+    Funded: [sol('f1', 50, FUNDER, 'Funded', 1_000_000_000), tx('f2', 200, 'SWAP', POOL, 'Funded'), sol('f3', 300, SPAMMER, 'Funded', 1)],
+    Dusted1: [tx('d1', 200, 'SWAP', POOL, 'Dusted1'), sol('d2', 300, SPAMMER, 'Dusted1', 5000)],
+    Dusted2: [tx('d3', 200, 'SWAP', POOL, 'Dusted2'), sol('d4', 300, SPAMMER, 'Dusted2', 5000)],
+  },
+})
+
+describe('hasNeverSold', () => {
+  // The store reads BAGSLOTTO_DATA_DIR on load, so modules are imported
+  // once it points at a scratch directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'bagslotto-test-'))
+  let helius: typeof import('./helius')
+  let clusters: typeof import('./clusters')
+
+  before(async () => {
+    process.env.BAGSLOTTO_DATA_DIR = dataDir
+    helius = await import('./helius')
+    clusters = await import('./clusters')
+  })
+
+  after(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  const check = (wallet: string) => helius.hasNeverSold(wallet, MINT, source, 100)
+
+  it('keeps a wallet that only bought', async () => {
+    assert.deepEqual(await check('Holder'), { eligible: true, firstAcquiredAt: 200, links: {} })
+  })
+
+  it('sees outflows under any transaction type', async () => {
+    const result = await check('Unknown')
+    assert.equal(result.eligible, false)
+    assert.equal(result.reason?.code, 'transfer_out')
+    assert.equal(result.reason?.signature, 'u2')
+  })
+
+  it('lets staking deposits through', async () => {
+    assert.equal((await check('Staker')).eligible, true)
+  })
+
+  it('finds funding before the mint and skips dust', async () => {
+    const result = await check('Funded')
+    assert.equal(result.eligible, true)
+    assert.equal(result.links?.fundedBy, FUNDER)
+  })
+
+  it("doesn't cluster wallets sent dust by the same wallet", async () => {
+    const wallets = ['Dusted1', 'Dusted2']
+    const eligibility = new Map(await Promise.all(wallets.map(async w => [w, await check(w)] as const)))
+    assert.deepEqual(clusters.detectClusters(wallets, eligibility), [])
+  })
+
+  it('finds sales', async () => {
+    const result = await check('Seller')
+    assert.equal(result.reason?.code, 'dex_swap')
+    assert.equal(result.reason?.signature, 'x2')
+  })
+})
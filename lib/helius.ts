@@ -1,11 +1,18 @@
 /**
  * Helius API client for checking wallet transaction history
  * Used to detect if a wallet has sold any tokens
+ *
+ * The history scan reads through any HolderSource with history (see
+ * lib/sources.ts); the Helius-specific fetchers below back the helius source.
  */
 
-// Simple in-memory cache for eligibility results
-// Key: `${tokenMint}:${walletAddress}`, Value: { eligible, reason, timestamp }
-const eligibilityCache = new Map<string, { eligible: boolean; reason?: string; timestamp: number }>()
+import { buildClassifierConfig, ClassifierConfig, classifyTransfer, isSale, SaleKind } from './classifier'
+import { classifierFingerprint, getCachedEligibility, saveEligibility } from './eligibility-cache'
+import { fetchWithRetry } from './http'
+import type { Eligibility, IneligibleCode, WalletLinks } from './lottery'
+import type { HistoryPage, HolderPageHandler, HolderSource, PagedFetch, TokenHolder } from './sources'
+
+// Cached results this recent are used without looking for new transactions
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 
 export interface TokenTransfer {
@@ -15,73 +22,287 @@ export interface TokenTransfer {
   tokenAmount: number
 }
 
+export interface NativeTransfer {
+  fromUserAccount: string
+  toUserAccount: string
+  // Lamports
+  amount: number
+}
+
 export interface ParsedTransaction {
   signature: string
   timestamp: number
   type: string
+  source?: string
   tokenTransfers?: TokenTransfer[]
+  nativeTransfers?: NativeTransfer[]
+}
+
+// Helius returns at most 100 parsed transactions per page
+const HISTORY_PAGE_SIZE = 100
+// Safety valve for extremely active wallets
+const MAX_HISTORY_PAGES = 200
+// Key of the newest scanned signature in the cached lastSignatures
+const HISTORY_KEY = 'all'
+// SOL transfers below this (0.01 SOL) are dust or spam, not funding
+export const MIN_FUNDING_LAMPORTS = 10_000_000
+// Pages read past the mint's creation looking for a wallet's funder
+const MAX_FUNDING_PAGES = 5
+
+/**
+ * Fetch one page of parsed transaction history (every type), newest first
+ * With `until`, stops at that signature (exclusive)
+ */
+export async function fetchHistoryPage(
+  walletAddress: string,
+  heliusApiKey: string,
+  before?: string,
+  until?: string
+): Promise<HistoryPage> {
+  const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions?api-key=${heliusApiKey}&limit=${HISTORY_PAGE_SIZE}${before ? `&before=${before}` : ''}${until ? `&until=${until}` : ''}`
+
+  const response = await fetchWithRetry('helius', url)
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`)
+  }
+
+  const transactions: ParsedTransaction[] = await response.json()
+  const full = transactions.length === HISTORY_PAGE_SIZE
+  return { transactions, nextBefore: full ? transactions[transactions.length - 1].signature : undefined }
+}
+
+interface Sale {
+  kind: SaleKind
+  signature: string
+  transfer: TokenTransfer
+}
+
+interface HistoryScan {
+  sale: Sale | null
+  // Oldest incoming transfer of the token seen (unix seconds)
+  firstAcquiredAt: number | null
+  links: WalletLinks
+  // Newest transaction seen, to scan from next time
+  newestSignature?: string
+}
+
+/**
+ * Sender of a plain SOL transfer into the wallet big enough to count as
+ * funding it (MIN_FUNDING_LAMPORTS)
+ */
+function funderIn(tx: ParsedTransaction, walletAddress: string): string | undefined {
+  if (tx.type !== 'TRANSFER') return undefined
+  const funding = (tx.nativeTransfers || []).find(native =>
+    native.toUserAccount === walletAddress &&
+    native.fromUserAccount &&
+    native.fromUserAccount !== walletAddress &&
+    native.amount >= MIN_FUNDING_LAMPORTS
+  )
+  return funding?.fromUserAccount
+}
+
+/**
+ * Oldest funder in `transactions` and up to MAX_FUNDING_PAGES older pages
+ * Wallets are usually funded before the token exists, so this carries on
+ * from where the sell scan stopped at the mint's creation.
+ */
+async function findFunder(
+  walletAddress: string,
+  source: HolderSource,
+  transactions: ParsedTransaction[],
+  before?: string,
+  until?: string
+): Promise<string | undefined> {
+  let fundedBy: string | undefined
+  let page = transactions
+  let cursor = before
+
+  for (let read = 0; ; read++) {
+    // History is newest first, so the last funder seen is the oldest
+    for (const tx of page) fundedBy = funderIn(tx, walletAddress) ?? fundedBy
+    if (!cursor || read >= MAX_FUNDING_PAGES || !source.fetchHistory) return fundedBy
+
+    const next = await source.fetchHistory(walletAddress, cursor, until)
+    page = next.transactions
+    cursor = next.nextBefore
+  }
+}
+
+/**
+ * Scan a wallet's history for the token
+ * Walks back page by page with the `before` cursor until the history ends
+ * or predates the mint's creation. Every transaction type is read, since
+ * tokens can leave a wallet under any of them. Stops at the first outgoing
+ * transfer that counts as a sale (benign transfers are skipped) and otherwise
+ * records when the wallet first received the token. Plain transfers also
+ * record who sent it the token, and findFunder who funded it (WalletLinks).
+ * With `until`, only transactions newer than that signature are scanned.
+ */
+async function scanHistory(
+  walletAddress: string,
+  tokenMint: string,
+  source: HolderSource,
+  mintCreatedAt: number | null,
+  classifier: ClassifierConfig,
+  until?: string
+): Promise<HistoryScan> {
+  if (!source.fetchHistory) {
+    throw new Error(`The ${source.name} source has no transaction history`)
+  }
+
+  let before: string | undefined
+  let firstAcquiredAt: number | null = null
+  let newestSignature: string | undefined
+  const links: WalletLinks = {}
+
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const { transactions, nextBefore } = await source.fetchHistory(walletAddress, before, until)
+    newestSignature ??= transactions[0]?.signature
+
+    for (let i = 0; i < transactions.length; i++) {
+      const tx = transactions[i]
+
+      // Anything older than the mint can't involve it, but may fund the wallet
+      if (mintCreatedAt !== null && tx.timestamp < mintCreatedAt) {
+        const funder = await findFunder(walletAddress, source, transactions.slice(i), nextBefore, until)
+        return { sale: null, firstAcquiredAt, links: { ...links, fundedBy: funder ?? links.fundedBy }, newestSignature }
+      }
+
+      links.fundedBy = funderIn(tx, walletAddress) ?? links.fundedBy
+
+      for (const transfer of tx.tokenTransfers || []) {
+        if (transfer.mint !== tokenMint || transfer.tokenAmount <= 0) continue
+
+        // History is newest first, so the last incoming transfer seen is the oldest
+        if (transfer.toUserAccount === walletAddress) {
+          firstAcquiredAt = tx.timestamp
+
+          if (tx.type === 'TRANSFER' && transfer.fromUserAccount && transfer.fromUserAccount !== walletAddress) {
+            links.tokenSenders = [...(links.tokenSenders ?? []), { from: transfer.fromUserAccount, at: tx.timestamp }]
+          }
+        }
+
+        if (transfer.fromUserAccount === walletAddress) {
+          const kind = classifyTransfer(tx, transfer, walletAddress, classifier)
+          if (isSale(kind)) {
+            return { sale: { kind, signature: tx.signature, transfer }, firstAcquiredAt, links, newestSignature }
+          }
+        }
+      }
+    }
+
+    if (!nextBefore) return { sale: null, firstAcquiredAt, links, newestSignature }
+    before = nextBefore
+  }
+
+  throw new Error(`History longer than ${MAX_HISTORY_PAGES} pages`)
+}
+
+const SALE_REASON_CODES: Record<SaleKind, IneligibleCode> = {
+  dex_swap: 'dex_swap',
+  exchange_deposit: 'exchange_deposit',
+  transfer: 'transfer_out',
+}
+
+const SALE_MESSAGES: Record<IneligibleCode, string> = {
+  dex_swap: 'Sold on a DEX',
+  exchange_deposit: 'Sent to an exchange',
+  transfer_out: 'Transferred to another wallet',
+  check_failed: 'Could not verify transaction history',
 }
 
 /**
  * Check if a wallet has sold or transferred out any of the specified token
  * Returns true if the wallet has NEVER sold (eligible for lottery)
+ *
+ * Scans the full history (every transaction type) back to the mint's
+ * creation (pass mintCreatedAt, in unix seconds, to stop there). Moves to
+ * linked wallets and program deposits don't count, see lib/classifier.ts.
+ *
+ * Results are kept in the store (lib/eligibility-cache.ts). A cached sale
+ * is final; a cached eligible result only needs the transactions since the
+ * last check. Failed checks are not cached.
+ *
+ * Eligible results also carry firstAcquiredAt (for holding bonuses).
  */
 export async function hasNeverSold(
   walletAddress: string,
   tokenMint: string,
-  heliusApiKey: string
-): Promise<{ eligible: boolean; reason?: string }> {
-  // Check cache first
-  const cacheKey = `${tokenMint}:${walletAddress}`
-  const cached = eligibilityCache.get(cacheKey)
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return { eligible: cached.eligible, reason: cached.reason }
+  source: HolderSource,
+  mintCreatedAt: number | null = null,
+  classifier: ClassifierConfig = buildClassifierConfig()
+): Promise<Eligibility> {
+  const fingerprint = classifierFingerprint(walletAddress, classifier)
+  const cached = await getCachedEligibility(tokenMint, walletAddress, fingerprint)
+  if (cached && (!cached.eligible || Date.now() - cached.checkedAt < CACHE_TTL)) {
+    const { eligible, reason, firstAcquiredAt, links } = cached
+    return { eligible, reason, firstAcquiredAt, links }
   }
 
   try {
-    // Use Helius parsed transaction history API - only get TRANSFER type transactions
-    // And filter for our specific token in the query
-    const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions?api-key=${heliusApiKey}&type=TRANSFER`
+    let firstAcquiredAt: number | null = cached?.firstAcquiredAt ?? null
+    const lastSignatures: Record<string, string> = { ...cached?.lastSignatures }
+    // A full scan finds every link again, so older cached ones are dropped
+    let links: WalletLinks = lastSignatures[HISTORY_KEY] ? cached?.links ?? {} : {}
 
-    const response = await fetch(url)
+    const save = (result: Eligibility) => saveEligibility({
+      ...result, tokenMint, wallet: walletAddress, lastSignatures, classifier: fingerprint,
+    })
 
-    if (!response.ok) {
-      // If we can't verify, mark as ineligible to be safe
-      return { eligible: false, reason: `API error: ${response.status}` }
+    const scan = await scanHistory(
+      walletAddress, tokenMint, source, mintCreatedAt, classifier, lastSignatures[HISTORY_KEY]
+    )
+    const { sale } = scan
+
+    if (scan.newestSignature) lastSignatures[HISTORY_KEY] = scan.newestSignature
+
+    if (scan.firstAcquiredAt !== null) {
+      firstAcquiredAt = firstAcquiredAt === null
+        ? scan.firstAcquiredAt
+        : Math.min(firstAcquiredAt, scan.firstAcquiredAt)
     }
 
-    const transactions: ParsedTransaction[] = await response.json()
-
-    // Check each transaction for outgoing token transfers
-    for (const tx of transactions) {
-      if (!tx.tokenTransfers) continue
-
-      for (const transfer of tx.tokenTransfers) {
-        // Check if this is an outgoing transfer of our token
-        if (
-          transfer.mint === tokenMint &&
-          transfer.fromUserAccount === walletAddress &&
-          transfer.tokenAmount > 0
-        ) {
-          const result = {
-            eligible: false,
-            reason: `Sold/transferred ${transfer.tokenAmount} tokens`
-          }
-          // Cache the result
-          eligibilityCache.set(cacheKey, { ...result, timestamp: Date.now() })
-          return result
-        }
+    // Merges the links of the new transactions into the cached ones. The
+    // oldest funder wins; senders are newest first, like the history
+    if (scan.links.fundedBy || scan.links.tokenSenders) {
+      links = {
+        fundedBy: links.fundedBy ?? scan.links.fundedBy,
+        tokenSenders: [...(scan.links.tokenSenders ?? []), ...(links.tokenSenders ?? [])],
+      }
+    }
+
+    if (sale) {
+      const code = SALE_REASON_CODES[sale.kind]
+      const result: Eligibility = {
+        eligible: false,
+        reason: {
+          code,
+          message: `${SALE_MESSAGES[code]}: ${sale.transfer.tokenAmount} tokens`,
+          signature: sale.signature,
+          amount: sale.transfer.tokenAmount,
+        },
       }
+      await save(result)
+      return result
     }
 
-    const result = { eligible: true }
-    // Cache the result
-    eligibilityCache.set(cacheKey, { ...result, timestamp: Date.now() })
+    const result: Eligibility = { eligible: true, firstAcquiredAt: firstAcquiredAt ?? undefined, links }
+    await save(result)
     return result
 
   } catch (error) {
+    // If we can't verify, mark as ineligible to be safe
     console.error(`[helius] Error checking ${walletAddress}:`, error)
-    return { eligible: false, reason: 'Error checking transaction history' }
+    return {
+      eligible: false,
+      reason: {
+        code: 'check_failed',
+        message: error instanceof Error
+          ? `${SALE_MESSAGES.check_failed}: ${error.message}`
+          : SALE_MESSAGES.check_failed,
+      },
+    }
   }
 }
 
@@ -92,12 +313,19 @@ export async function hasNeverSold(
 export async function batchCheckSells(
   wallets: string[],
   tokenMint: string,
-  heliusApiKey: string,
-  onProgress?: (checked: number, total: number) => void
-): Promise<Map<string, { eligible: boolean; reason?: string }>> {
-  const results = new Map<string, { eligible: boolean; reason?: string }>()
+  source: HolderSource,
+  onProgress?: (checked: number, total: number) => void,
+  classifier: ClassifierConfig = buildClassifierConfig()
+): Promise<Map<string, Eligibility>> {
+  const results = new Map<string, Eligibility>()
+
+  // History older than the mint can't contain a sale, so stop scanning there
+  const mintCreatedAt = source.getMintCreationTime ? await source.getMintCreationTime(tokenMint) : null
+  if (mintCreatedAt === null) {
+    console.log(`[helius] Mint creation time unknown, scanning full wallet histories`)
+  }
 
-  // Process in parallel batches of 10 to avoid rate limits
+  // Check 10 wallets at a time - lib/http spaces out the requests themselves
   const BATCH_SIZE = 10
   let processed = 0
 
@@ -107,7 +335,7 @@ export async function batchCheckSells(
     // Run batch in parallel
     const batchResults = await Promise.all(
       batch.map(async (wallet) => {
-        const result = await hasNeverSold(wallet, tokenMint, heliusApiKey)
+        const result = await hasNeverSold(wallet, tokenMint, source, mintCreatedAt, classifier)
         return { wallet, result }
       })
     )
@@ -121,77 +349,58 @@ export async function batchCheckSells(
     if (onProgress) {
       onProgress(processed, wallets.length)
     }
-
-    // Rate limit between batches: 100ms
-    if (i + BATCH_SIZE < wallets.length) {
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
   }
 
   return results
 }
 
-/**
- * Known LP and program addresses to filter out
- */
-export const EXCLUDED_ADDRESSES = new Set([
-  // Raydium AMM
-  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
-  // Raydium CLMM
-  'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK',
-  // Orca Whirlpool
-  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
-  // Pump.fun
-  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
-  // Pump.fun fee
-  'CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM',
-  // Jupiter Aggregator
-  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
-  // Token Program
-  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
-  // Associated Token Program
-  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
-  // Dev wallet
-  '36xH1EnLfUgenU8BBQN61Gn2JCE2gceBJDsGmSAzks3L',
-  // Additional blacklisted wallet
-  '5ZZZ6T7vimeuPbE2EfM9BrChLpzRhw2jsJzWFrsQCxcp',
-])
-
-/**
- * Check if an address is a known LP or program
- */
-export function isExcludedAddress(address: string): boolean {
-  return EXCLUDED_ADDRESSES.has(address)
-}
-
 // =============================================================================
 // TOKEN HOLDER FETCHING (Fallback for when Birdeye premium not available)
 // =============================================================================
 
-export interface TokenHolder {
-  owner: string
-  balance: number
+/**
+ * Comparator for raw amount strings, largest first
+ */
+export function compareAmountsDesc(a: string, b: string): number {
+  const diff = BigInt(b) - BigInt(a)
+  return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0
 }
 
 /**
- * Fetch all token holders using Helius RPC
- * Uses getTokenAccounts with pagination
+ * Fetch all token holders using Helius RPC, passing each page to onPage
+ * Uses getTokenAccounts with pagination - there is no limit on how many
+ *
+ * Pages have one row per token account (a wallet can appear more than
+ * once) - see lib/holder-fetches.ts for per-wallet totals.
+ *
+ * Stops early on an error that outlasts the retries and reports it, with
+ * the DAS cursor to resume from - pass that back as resumeFrom to continue.
  *
  * Note: This can be slow for tokens with many holders
  */
 export async function fetchAllHoldersHelius(
   tokenMint: string,
   heliusApiKey: string,
-  maxHolders: number = 10000
-): Promise<TokenHolder[]> {
-  const holders: TokenHolder[] = []
-  let cursor: string | undefined
+  onPage: HolderPageHandler,
+  resumeFrom?: string
+): Promise<PagedFetch> {
+  let cursor: string | undefined = resumeFrom
+  const resumed = resumeFrom !== undefined
+  let pages = 0
+  let fetched = 0
 
-  console.log(`[helius] Fetching holders for ${tokenMint}...`)
+  console.log(`[helius] Fetching holders for ${tokenMint}${resumed ? ` from cursor ${cursor}` : ''}...`)
 
   const url = `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
 
-  while (holders.length < maxHolders) {
+  const stop = (error: string): PagedFetch => {
+    console.error(`[helius] Stopped after ${fetched} holders: ${error}`)
+    return { report: { complete: false, pages, cursor, error, resumed } }
+  }
+
+  let more = true
+  while (more) {
+    let data
     try {
       const body: Record<string, unknown> = {
         jsonrpc: '2.0',
@@ -204,60 +413,52 @@ export async function fetchAllHoldersHelius(
         },
       }
 
-      const response = await fetch(url, {
+      const response = await fetchWithRetry('helius', url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
       })
 
       if (!response.ok) {
-        console.error(`[helius] Failed: ${response.status}`)
-        break
+        return stop(`HTTP ${response.status}`)
       }
 
-      const data = await response.json()
-
-      if (data.error) {
-        console.error(`[helius] API error:`, data.error)
-        break
-      }
-
-      const accounts = data.result?.token_accounts || []
+      // DAS returns amounts as JSON numbers, which lose precision above
+      // 2^53 - quote them before parsing so they stay exact
+      const text = await response.text()
+      data = JSON.parse(text.replace(/"amount":\s*(\d+)/g, '"amount":"$1"'))
+    } catch (error) {
+      return stop(error instanceof Error ? error.message : String(error))
+    }
 
-      if (accounts.length === 0) {
-        console.log(`[helius] No more accounts`)
-        break
-      }
+    if (data.error) {
+      return stop(`API error: ${data.error.message || JSON.stringify(data.error)}`)
+    }
 
-      for (const acc of accounts) {
-        // Skip zero balances
-        if (!acc.amount || acc.amount === '0') continue
+    pages++
+    const accounts: Array<{ owner: string; amount?: string }> = data.result?.token_accounts || []
 
-        holders.push({
-          owner: acc.owner,
-          balance: Number(acc.amount) / Math.pow(10, acc.decimals || 9),
-        })
-      }
+    if (accounts.length === 0) {
+      console.log(`[helius] No more accounts`)
+      break
+    }
 
-      console.log(`[helius] Fetched ${holders.length} holders...`)
+    // Skip zero balances
+    const holders: TokenHolder[] = accounts
+      .filter(acc => acc.amount && acc.amount !== '0')
+      .map(acc => ({ owner: acc.owner, amount: String(acc.amount) }))
 
-      cursor = data.result?.cursor
-      if (!cursor) break
+    cursor = data.result?.cursor
+    fetched += holders.length
+    await onPage(holders, cursor)
 
-      // Rate limit
-      await new Promise(resolve => setTimeout(resolve, 100))
+    console.log(`[helius] Fetched ${fetched} holders...`)
 
-    } catch (error) {
-      console.error(`[helius] Error:`, error)
-      break
-    }
+    more = !!cursor
   }
 
-  // Sort by balance descending
-  holders.sort((a, b) => b.balance - a.balance)
-
-  console.log(`[helius] Total holders fetched: ${holders.length}`)
-  return holders
+  console.log(`[helius] Total holders fetched: ${fetched}`)
+  return { report: { complete: true, pages, resumed } }
 }
 
 /**
@@ -270,7 +471,7 @@ export async function getTokenMetadataHelius(
   try {
     const url = `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
 
-    const response = await fetch(url, {
+    const response = await fetchWithRetry('helius', url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -290,26 +491,9 @@ export async function getTokenMetadataHelius(
     return {
       symbol: data.result.content?.metadata?.symbol || 'UNKNOWN',
       name: data.result.content?.metadata?.name || 'Unknown Token',
-      decimals: data.result.token_info?.decimals || 9,
+      decimals: data.result.token_info?.decimals ?? 9,
     }
   } catch {
     return null
   }
 }
-
-/**
- * Clear the eligibility cache (useful for forcing refresh)
- */
-export function clearEligibilityCache(): void {
-  eligibilityCache.clear()
-}
-
-/**
- * Get cache stats for debugging
- */
-export function getCacheStats(): { size: number; entries: string[] } {
-  return {
-    size: eligibilityCache.size,
-    entries: Array.from(eligibilityCache.keys()),
-  }
-}
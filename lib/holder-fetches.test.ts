@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+
+const TOKEN_MINT = '3hYAvLUn8rPdSmJkQDNC8GRhdK4add1H44rHivPDBAGS'
+
+describe('holder fetches', () => {
+  // The store reads BAGSLOTTO_DATA_DIR on load, so modules are imported
+  // once it points at a scratch directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'bagslotto-test-'))
+  let fetches: typeof import('./holder-fetches')
+  let store: typeof import('./store')
+
+  before(async () => {
+    process.env.BAGSLOTTO_DATA_DIR = dataDir
+    fetches = await import('./holder-fetches')
+    store = await import('./store')
+  })
+
+  after(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  // Rows written to every partition log after the last commit, as if the
+  // process died before the page's cursor was saved
+  async function tearPage(id: string) {
+    for (let partition = 0; partition < 16; partition++) {
+      await store.appendToLog('holder-pages', `${id}-${partition}`, [{ owner: 'Torn', amount: '1' }])
+    }
+  }
+
+  it('sums token accounts per wallet and drops uncommitted rows', async () => {
+    const stored = await fetches.startHolderFetch('helius', TOKEN_MINT, true, 'job-1')
+    await fetches.appendHolderPage(stored, [
+      { owner: 'Alice', amount: '100' },
+      { owner: 'Bob', amount: '0' },
+      { owner: 'Alice', amount: '50' },
+      { owner: 'Carol', amount: '7' },
+    ])
+    await tearPage(stored.id)
+
+    const { wallets, holders } = await fetches.aggregateHolderFetch(stored, amount => BigInt(amount) >= BigInt(10))
+    assert.equal(wallets, 2)
+    assert.deepEqual(holders, [{ owner: 'Alice', amount: '150' }])
+    await fetches.discardHolderFetch(stored)
+  })
+
+  it('resumes a fetch that stopped early from its last committed page', async () => {
+    const stored = await fetches.startHolderFetch('birdeye', TOKEN_MINT, false, 'job-1')
+    await fetches.appendHolderPage(stored, [{ owner: 'Alice', amount: '100' }], '100')
+    await tearPage(stored.id)
+
+    // Owned until released
+    assert.equal(await fetches.getResumableFetch('birdeye', TOKEN_MINT, 'job-2'), null)
+    await fetches.finishHolderFetch(stored, { complete: false, pages: 1, error: 'HTTP 502' })
+    await fetches.releaseHolderFetch(stored)
+
+    const resumed = await fetches.getResumableFetch('birdeye', TOKEN_MINT, 'job-2')
+    assert.ok(resumed)
+    assert.equal(resumed.cursor, '100')
+    assert.equal(resumed.accounts, 1)
+
+    await fetches.appendHolderPage(resumed, [{ owner: 'Bob', amount: '20' }])
+    await fetches.finishHolderFetch(resumed, { complete: true, pages: 1 })
+    const { holders } = await fetches.aggregateHolderFetch(resumed, () => true)
+    assert.deepEqual(holders, [{ owner: 'Alice', amount: '100' }, { owner: 'Bob', amount: '20' }])
+
+    // A complete fetch isn't resumed
+    await fetches.releaseHolderFetch(resumed)
+    assert.equal(await fetches.getResumableFetch('birdeye', TOKEN_MINT, 'job-3'), null)
+  })
+})
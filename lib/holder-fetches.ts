@@ -0,0 +1,290 @@
+/**
+ * Holder fetches, streamed to disk
+ *
+ * Holder pages are written to the store as they arrive instead of being
+ * collected in memory, so there is no ceiling on how many holders a token
+ * can have. Rows are spread over PARTITIONS append-only logs by owner, which
+ * keeps every token account of a wallet in the same log: per-wallet totals
+ * are then worked out one partition at a time (aggregateHolderFetch), and
+ * only wallets that earn a ticket are kept.
+ *
+ * Every fetch has its own id and logs, and is owned by the analysis writing
+ * to it, so analyses of the same mint running side by side never mix their
+ * pages. The fetch record is written after each page with the page's cursor
+ * and the size of every partition log, which commits the two together: rows
+ * past those sizes belong to a page whose cursor was never saved, and are
+ * cut off before the logs are read or resumed.
+ *
+ * A resume pointer per source and mint names the latest unpinned fetch, so
+ * one that stopped early (an API error that outlasted the retries, or a
+ * crash) can pick up where it stopped (getResumableFetch).
+ */
+
+import { randomUUID } from 'crypto'
+import { compareAmountsDesc } from './helius'
+import type { FetchReport, SourceName, TokenHolder } from './sources'
+import {
+  appendToLog,
+  deleteLog,
+  deleteRecord,
+  listRecords,
+  readLog,
+  readRecord,
+  truncateLog,
+  writeRecord,
+} from './store'
+
+const COLLECTION = 'holder-fetches'
+const PAGES_COLLECTION = 'holder-pages'
+const RESUME_COLLECTION = 'holder-fetch-resume'
+
+const PARTITIONS = 16
+
+// Older partial fetches are stale - balances have moved on
+const MAX_AGE_MS = 60 * 60 * 1000
+// A fetch whose owner hasn't written a page for this long was abandoned
+const LEASE_MS = 5 * 60 * 1000
+
+export interface StoredHolderFetch {
+  id: string
+  source: SourceName
+  tokenMint: string
+  // Read at one slot - such fetches are never resumed
+  pinned: boolean
+  startedAt: number
+  updatedAt: number
+  // Token accounts written so far
+  accounts: number
+  pages: number
+  complete: boolean
+  // Cursor of the next page, while incomplete
+  cursor?: string
+  // Committed size in bytes of each partition log
+  partitionSizes: number[]
+  // Set while an analysis is writing to the fetch
+  owner?: string
+}
+
+// Latest unpinned fetch for a source and mint (its cursor is in the fetch
+// record, committed with its pages)
+interface ResumePointer {
+  source: SourceName
+  tokenMint: string
+  fetchId: string
+  updatedAt: number
+}
+
+export interface AggregatedHolders {
+  // Wallets with a balance
+  wallets: number
+  // Per-wallet totals of the wallets kept, largest first
+  holders: TokenHolder[]
+}
+
+// Fetches owned by this process - closes the gap between claiming a fetch
+// and reading the claim back
+const claimed = new Set<string>()
+
+function pointerId(source: SourceName, tokenMint: string): string {
+  return `${source}-${tokenMint}`
+}
+
+function partitionId(id: string, partition: number): string {
+  return `${id}-${partition}`
+}
+
+// The last base58 character of an address is close to uniform
+function partitionOf(owner: string): number {
+  return owner.charCodeAt(owner.length - 1) % PARTITIONS
+}
+
+function isOwned(stored: StoredHolderFetch): boolean {
+  return claimed.has(stored.id) || (!!stored.owner && Date.now() - stored.updatedAt < LEASE_MS)
+}
+
+/**
+ * Cut every partition log back to its committed size
+ */
+async function restorePartitions(stored: StoredHolderFetch): Promise<void> {
+  for (let partition = 0; partition < PARTITIONS; partition++) {
+    await truncateLog(PAGES_COLLECTION, partitionId(stored.id, partition), stored.partitionSizes[partition])
+  }
+}
+
+async function deleteFetch(stored: StoredHolderFetch): Promise<void> {
+  for (let partition = 0; partition < PARTITIONS; partition++) {
+    await deleteLog(PAGES_COLLECTION, partitionId(stored.id, partition))
+  }
+  await deleteRecord(COLLECTION, stored.id)
+}
+
+/**
+ * Delete fetches too old to resume that nobody owns
+ */
+async function sweepFetches(): Promise<void> {
+  for (const id of await listRecords(COLLECTION)) {
+    const stored = await readRecord<StoredHolderFetch>(COLLECTION, id)
+    if (stored && !isOwned(stored) && Date.now() - stored.updatedAt > MAX_AGE_MS) {
+      await deleteFetch(stored)
+    }
+  }
+}
+
+/**
+ * Start a new fetch for a source and mint, owned by `owner`
+ */
+export async function startHolderFetch(
+  source: SourceName,
+  tokenMint: string,
+  pinned: boolean,
+  owner: string
+): Promise<StoredHolderFetch> {
+  await sweepFetches()
+
+  const now = Date.now()
+  const stored: StoredHolderFetch = {
+    id: randomUUID(), source, tokenMint, pinned, startedAt: now, updatedAt: now,
+    accounts: 0, pages: 0, complete: false, partitionSizes: new Array(PARTITIONS).fill(0), owner,
+  }
+  claimed.add(stored.id)
+  await writeRecord(COLLECTION, stored.id, stored)
+
+  if (!pinned) {
+    // The new fetch replaces the one resume would have continued
+    const pointer = await readRecord<ResumePointer>(RESUME_COLLECTION, pointerId(source, tokenMint))
+    const previous = pointer && await readRecord<StoredHolderFetch>(COLLECTION, pointer.fetchId)
+    if (previous && !isOwned(previous)) await deleteFetch(previous)
+
+    const next: ResumePointer = { source, tokenMint, fetchId: stored.id, updatedAt: now }
+    await writeRecord(RESUME_COLLECTION, pointerId(source, tokenMint), next)
+  }
+
+  return stored
+}
+
+/**
+ * The latest fetch for a source and mint if it stopped early recently and
+ * no other running analysis owns it - claimed for `owner`, so it can be
+ * continued. An owner can take back its own fetch straight away (a job
+ * retried after its invocation was killed).
+ */
+export async function getResumableFetch(
+  source: SourceName,
+  tokenMint: string,
+  owner: string
+): Promise<StoredHolderFetch | null> {
+  const pointer = await readRecord<ResumePointer>(RESUME_COLLECTION, pointerId(source, tokenMint))
+  if (!pointer) return null
+
+  const stored = await readRecord<StoredHolderFetch>(COLLECTION, pointer.fetchId)
+  if (!stored || stored.complete || !stored.cursor || claimed.has(stored.id)) return null
+  if (stored.owner !== owner && isOwned(stored)) return null
+  if (Date.now() - stored.updatedAt > MAX_AGE_MS) return null
+
+  // A one-off claim, so two claims for the same owner can be told apart
+  const claim = randomUUID()
+  claimed.add(stored.id)
+  await writeRecord(COLLECTION, stored.id, { ...stored, owner: claim, updatedAt: Date.now() })
+
+  // Another process may have claimed it at the same time - the last write wins
+  const current = await readRecord<StoredHolderFetch>(COLLECTION, stored.id)
+  if (current?.owner !== claim) {
+    claimed.delete(stored.id)
+    return null
+  }
+
+  current.owner = owner
+  await writeRecord(COLLECTION, current.id, current)
+  await restorePartitions(current)
+  return current
+}
+
+/**
+ * Write one page of holders, then commit it with the cursor of the page after it
+ */
+export async function appendHolderPage(
+  stored: StoredHolderFetch,
+  holders: TokenHolder[],
+  cursor?: string
+): Promise<void> {
+  const partitions: TokenHolder[][] = Array.from({ length: PARTITIONS }, () => [])
+  for (const holder of holders) {
+    partitions[partitionOf(holder.owner)].push({ owner: holder.owner, amount: holder.amount })
+  }
+
+  const sizes = [...stored.partitionSizes]
+  for (let partition = 0; partition < PARTITIONS; partition++) {
+    if (partitions[partition].length === 0) continue
+    sizes[partition] = await appendToLog(PAGES_COLLECTION, partitionId(stored.id, partition), partitions[partition])
+  }
+
+  Object.assign(stored, {
+    partitionSizes: sizes,
+    accounts: stored.accounts + holders.length,
+    pages: stored.pages + 1,
+    cursor,
+    updatedAt: Date.now(),
+  })
+  await writeRecord(COLLECTION, stored.id, stored)
+}
+
+/**
+ * Record how the fetch ended (the caller still owns it until releaseHolderFetch)
+ */
+export async function finishHolderFetch(stored: StoredHolderFetch, report: FetchReport): Promise<void> {
+  stored.complete = report.complete
+  stored.cursor = report.complete ? undefined : report.cursor ?? stored.cursor
+  stored.updatedAt = Date.now()
+  await writeRecord(COLLECTION, stored.id, stored)
+  console.log(`[holders] ${stored.source} ${report.complete ? 'finished' : 'stopped'} after ${stored.accounts} token accounts (${stored.pages} pages)`)
+}
+
+/**
+ * Sum each wallet's token accounts, one partition at a time, keeping the
+ * wallets whose total passes `keep`
+ */
+export async function aggregateHolderFetch(
+  stored: StoredHolderFetch,
+  keep: (amount: string) => boolean
+): Promise<AggregatedHolders> {
+  await restorePartitions(stored)
+
+  const kept: TokenHolder[] = []
+  let wallets = 0
+
+  for (let partition = 0; partition < PARTITIONS; partition++) {
+    const totals = new Map<string, bigint>()
+    await readLog<TokenHolder>(PAGES_COLLECTION, partitionId(stored.id, partition), ({ owner, amount }) => {
+      totals.set(owner, (totals.get(owner) ?? BigInt(0)) + BigInt(amount))
+    })
+
+    for (const [owner, total] of totals) {
+      if (total === BigInt(0)) continue
+      wallets++
+      const amount = total.toString()
+      if (keep(amount)) kept.push({ owner, amount })
+    }
+  }
+
+  kept.sort((a, b) => compareAmountsDesc(a.amount, b.amount))
+
+  return { wallets, holders: kept }
+}
+
+/**
+ * Let another analysis resume the fetch
+ */
+export async function releaseHolderFetch(stored: StoredHolderFetch): Promise<void> {
+  stored.owner = undefined
+  stored.updatedAt = Date.now()
+  await writeRecord(COLLECTION, stored.id, stored)
+  claimed.delete(stored.id)
+}
+
+/**
+ * Delete a fetch and its pages once they have been used
+ */
+export async function discardHolderFetch(stored: StoredHolderFetch): Promise<void> {
+  claimed.delete(stored.id)
+  await deleteFetch(stored)
+}
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+import { fetchWithRetry, getHttpMetrics, parseRetryAfter, resetHttpClient } from './http'
+
+const realFetch = globalThis.fetch
+
+// A response that sends `first` and then stalls until the request is aborted
+function stalledResponse(signal: AbortSignal, first: string): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(first))
+      signal.addEventListener('abort', () => controller.error(signal.reason))
+    },
+  })
+  return new Response(body, { status: 200 })
+}
+
+// Answer with each status in turn (the last one from then on)
+function serveStatuses(statuses: Array<[number, Record<string, string>?]>): string[] {
+  const calls: string[] = []
+  globalThis.fetch = async url => {
+    const [status, headers] = statuses[Math.min(calls.length, statuses.length - 1)]
+    calls.push(String(url))
+    return new Response(status === 200 ? 'ok' : 'busy', { status, headers })
+  }
+  return calls
+}
+
+describe('parseRetryAfter', () => {
+  it('reads seconds or an HTTP date', () => {
+    assert.equal(parseRetryAfter('3'), 3000)
+    assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000), 6000)
+    assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:00:01 GMT', 4000), 0)
+    assert.equal(parseRetryAfter('soon'), null)
+    assert.equal(parseRetryAfter(null), null)
+  })
+})
+
+describe('fetchWithRetry', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch
+    resetHttpClient()
+  })
+
+  it('retries 429s and 5xxs until a response comes through', async () => {
+    const calls = serveStatuses([[429, { 'retry-after': '0' }], [503, { 'retry-after': '0' }], [200]])
+
+    const response = await fetchWithRetry('rpc', 'http://rpc.test')
+    assert.equal(await response.text(), 'ok')
+    assert.equal(calls.length, 3)
+    const { retries, rateLimited, serverErrors, failures } = getHttpMetrics().rpc ?? {}
+    assert.deepEqual({ retries, rateLimited, serverErrors, failures }, { retries: 2, rateLimited: 1, serverErrors: 1, failures: 0 })
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    serveStatuses([[429, { 'retry-after': '1' }], [200]])
+
+    const started = Date.now()
+    await fetchWithRetry('rpc', 'http://rpc.test')
+    assert.ok(Date.now() - started >= 1000, `retried after ${Date.now() - started}ms`)
+  })
+
+  it('returns other errors without retrying', async () => {
+    const calls = serveStatuses([[404]])
+    assert.equal((await fetchWithRetry('rpc', 'http://rpc.test')).status, 404)
+    assert.equal(calls.length, 1)
+  })
+
+  it('throws once the retries run out', async () => {
+    const calls = serveStatuses([[503, { 'retry-after': '0' }]])
+    await assert.rejects(fetchWithRetry('rpc', 'http://rpc.test', {}, { retries: 2 }), /rpc request failed after 3 attempts: HTTP 503/)
+    assert.equal(calls.length, 3)
+    assert.equal(getHttpMetrics().rpc?.failures, 1)
+  })
+
+  it('times out a body that stops arriving', async () => {
+    globalThis.fetch = async (_url, init) => stalledResponse(init?.signal as AbortSignal, '{"result":')
+
+    // A real socket would keep the process open while the body stalls
+    const keepAlive = setTimeout(() => undefined, 1000)
+    const response = await fetchWithRetry('rpc', 'http://rpc.test', {}, { timeoutMs: 50 })
+    await assert.rejects(response.json(), /rpc response timed out after 50ms/)
+    clearTimeout(keepAlive)
+    assert.equal(getHttpMetrics().rpc?.timeouts, 1)
+  })
+
+  it('stops the timeout once the body is read', async () => {
+    let signal: AbortSignal | undefined
+    globalThis.fetch = async (_url, init) => {
+      signal = init?.signal ?? undefined
+      return new Response('{"result":1}')
+    }
+
+    const response = await fetchWithRetry('rpc', 'http://rpc.test', {}, { timeoutMs: 50 })
+    assert.deepEqual(await response.json(), { result: 1 })
+    await new Promise(resolve => setTimeout(resolve, 100))
+    assert.equal(signal?.aborted, false)
+  })
+})
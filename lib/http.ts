@@ -0,0 +1,293 @@
+/**
+ * Shared HTTP client for the data providers
+ *
+ * Every request to Helius, Birdeye or a Solana RPC endpoint goes through
+ * fetchWithRetry, which:
+ * - waits for a token from the provider's bucket (requests per second with
+ *   a small burst), shared by every caller in the process
+ * - retries 429s, 5xxs, timeouts and network errors with exponential
+ *   backoff, honoring Retry-After (which also pauses the whole provider)
+ * - aborts requests that take longer than the timeout, counting the time
+ *   spent reading the body
+ * - counts requests, retries and failures per provider (getHttpMetrics)
+ *
+ * Once the retries run out it throws, so a flaky page fails the fetch
+ * instead of silently cutting a list short.
+ */
+
+export type Provider = 'helius' | 'birdeye' | 'rpc'
+
+export interface RateLimit {
+  requestsPerSecond: number
+  burst: number
+}
+
+export interface RequestOptions {
+  // Attempts after the first one
+  retries?: number
+  timeoutMs?: number
+}
+
+export interface ProviderMetrics {
+  requests: number
+  retries: number
+  rateLimited: number
+  serverErrors: number
+  timeouts: number
+  networkErrors: number
+  // Requests that still failed after every retry
+  failures: number
+  // Time spent waiting for the rate limiter
+  throttledMs: number
+  averageLatencyMs: number
+}
+
+// Defaults match the entry paid tiers; override with HELIUS_RPS, BIRDEYE_RPS
+// and SOLANA_RPC_RPS
+const DEFAULT_LIMITS: Record<Provider, RateLimit> = {
+  helius: { requestsPerSecond: 10, burst: 10 },
+  birdeye: { requestsPerSecond: 15, burst: 5 },
+  rpc: { requestsPerSecond: 10, burst: 10 },
+}
+
+const RPS_ENV: Record<Provider, string> = {
+  helius: 'HELIUS_RPS',
+  birdeye: 'BIRDEYE_RPS',
+  rpc: 'SOLANA_RPC_RPS',
+}
+
+const DEFAULT_RETRIES = 5
+const DEFAULT_TIMEOUT_MS = 30_000
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 30_000
+
+interface Bucket {
+  limit: RateLimit
+  tokens: number
+  updatedAt: number
+  // Set by a Retry-After answer
+  pausedUntil: number
+}
+
+const buckets = new Map<Provider, Bucket>()
+const metrics = new Map<Provider, ProviderMetrics & { totalLatencyMs: number }>()
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Rate limit for a provider, from the environment or the defaults
+ */
+export function rateLimitFor(provider: Provider): RateLimit {
+  const limit = DEFAULT_LIMITS[provider]
+  const rps = Number(process.env[RPS_ENV[provider]])
+  if (!Number.isFinite(rps) || rps <= 0) return limit
+  return { requestsPerSecond: rps, burst: Math.max(1, Math.min(limit.burst, Math.floor(rps))) }
+}
+
+function bucketFor(provider: Provider): Bucket {
+  let bucket = buckets.get(provider)
+  if (!bucket) {
+    const limit = rateLimitFor(provider)
+    bucket = { limit, tokens: limit.burst, updatedAt: Date.now(), pausedUntil: 0 }
+    buckets.set(provider, bucket)
+  }
+  return bucket
+}
+
+function metricsFor(provider: Provider) {
+  let entry = metrics.get(provider)
+  if (!entry) {
+    entry = {
+      requests: 0, retries: 0, rateLimited: 0, serverErrors: 0, timeouts: 0,
+      networkErrors: 0, failures: 0, throttledMs: 0, averageLatencyMs: 0, totalLatencyMs: 0,
+    }
+    metrics.set(provider, entry)
+  }
+  return entry
+}
+
+/**
+ * Take one token from the provider's bucket, waiting if it is empty
+ * Tokens can go negative: each waiting caller reserves its own slot.
+ */
+async function acquire(provider: Provider): Promise<void> {
+  const bucket = bucketFor(provider)
+  const { requestsPerSecond, burst } = bucket.limit
+
+  const now = Date.now()
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * requestsPerSecond)
+  bucket.updatedAt = now
+  bucket.tokens -= 1
+
+  const wait = Math.max(
+    bucket.tokens < 0 ? (-bucket.tokens / requestsPerSecond) * 1000 : 0,
+    bucket.pausedUntil - now
+  )
+  if (wait > 0) {
+    metricsFor(provider).throttledMs += wait
+    await sleep(wait)
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (0-based)
+ */
+function backoff(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+  return ceiling / 2 + Math.random() * (ceiling / 2)
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * The response with a body that calls `done` once it has been read to the
+ * end or cancelled, and fails with timedOut() if the request is aborted
+ */
+function watchBody(response: Response, signal: AbortSignal, done: () => void, timedOut: () => Error): Response {
+  if (!response.body) {
+    done()
+    return response
+  }
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const chunk = await reader.read()
+        if (chunk.done) {
+          done()
+          controller.close()
+        } else {
+          controller.enqueue(chunk.value)
+        }
+      } catch (error) {
+        done()
+        controller.error(signal.aborted ? timedOut() : error)
+      }
+    },
+    cancel(reason) {
+      done()
+      return reader.cancel(reason)
+    },
+  })
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+/**
+ * Rate-limited fetch with retries - see the top of this file
+ * Non-retryable responses (2xx, 404, ...) are returned, with the body
+ * read still under the timeout.
+ */
+export async function fetchWithRetry(
+  provider: Provider,
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> {
+  const { retries = DEFAULT_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+  const stats = metricsFor(provider)
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(provider)
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    const started = Date.now()
+    stats.requests++
+
+    let failure: string
+    let wait: number
+    // Set once the response is returned and the body read owns the timer
+    let reading = false
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal })
+      if (!isRetryable(response.status)) {
+        stats.totalLatencyMs += Date.now() - started
+        // The timeout keeps running until the body is read (response.json(),
+        // a stream...), but doesn't hold the process open by itself
+        reading = true
+        timer.unref?.()
+        return watchBody(response, controller.signal, () => clearTimeout(timer), () => {
+          stats.timeouts++
+          return new Error(`${provider} response timed out after ${timeoutMs}ms`)
+        })
+      }
+
+      if (response.status === 429) stats.rateLimited++
+      else stats.serverErrors++
+      failure = `HTTP ${response.status}`
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+      wait = retryAfter ?? backoff(attempt)
+      if (retryAfter !== null) {
+        const bucket = bucketFor(provider)
+        bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + retryAfter)
+      }
+
+      // Free the connection before retrying
+      await response.body?.cancel().catch(() => undefined)
+    } catch (error) {
+      if (controller.signal.aborted) {
+        stats.timeouts++
+        failure = `timed out after ${timeoutMs}ms`
+      } else {
+        stats.networkErrors++
+        failure = error instanceof Error ? error.message : String(error)
+      }
+      wait = backoff(attempt)
+    } finally {
+      if (!reading) clearTimeout(timer)
+    }
+
+    stats.totalLatencyMs += Date.now() - started
+
+    if (attempt >= retries) {
+      stats.failures++
+      throw new Error(`${provider} request failed after ${attempt + 1} attempt${attempt ? 's' : ''}: ${failure}`)
+    }
+
+    stats.retries++
+    console.log(`[http] ${provider} ${failure}, retrying in ${Math.round(wait)}ms (${attempt + 1}/${retries})`)
+    await sleep(wait)
+  }
+}
+
+/**
+ * Request counters per provider since the process started
+ */
+export function getHttpMetrics(): Partial<Record<Provider, ProviderMetrics>> {
+  const snapshot: Partial<Record<Provider, ProviderMetrics>> = {}
+  for (const [provider, { totalLatencyMs, ...counters }] of metrics) {
+    snapshot[provider] = {
+      ...counters,
+      throttledMs: Math.round(counters.throttledMs),
+      averageLatencyMs: counters.requests ? Math.round(totalLatencyMs / counters.requests) : 0,
+    }
+  }
+  return snapshot
+}
+
+/**
+ * Reset counters and rate limiters (e.g. after changing the RPS settings)
+ */
+export function resetHttpClient(): void {
+  buckets.clear()
+  metrics.clear()
+}
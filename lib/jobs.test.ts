@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+
+const TOKEN_MINT = '3hYAvLUn8rPdSmJkQDNC8GRhdK4add1H44rHivPDBAGS'
+
+describe('queueAnalysis', () => {
+  // The store reads BAGSLOTTO_DATA_DIR on load, so modules are imported
+  // once it points at a scratch directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'bagslotto-test-'))
+  let jobs: typeof import('./jobs')
+  let store: typeof import('./store')
+
+  before(async () => {
+    process.env.BAGSLOTTO_DATA_DIR = dataDir
+    jobs = await import('./jobs')
+    store = await import('./store')
+  })
+
+  after(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('queues one job when asked concurrently', async () => {
+    const request = { tokenMint: TOKEN_MINT, checkSells: true }
+    const queued = await Promise.all([jobs.queueAnalysis(request), jobs.queueAnalysis(request), jobs.queueAnalysis(request)])
+
+    assert.deepEqual(new Set(queued.map(j => j.id)), new Set([`${TOKEN_MINT}-sells-1`]))
+    assert.deepEqual(await store.listRecords('jobs'), [`${TOKEN_MINT}-sells-1`])
+  })
+
+  it('queues the next job once the last one finished', async () => {
+    const request = { tokenMint: TOKEN_MINT, checkSells: false }
+    const first = await jobs.queueAnalysis(request)
+    await store.writeRecord('jobs', first.id, { ...first, status: 'done' })
+
+    const next = await jobs.queueAnalysis(request)
+    assert.equal(next.id, `${TOKEN_MINT}-no-sells-2`)
+    assert.equal(next.status, 'queued')
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Analysis jobs and the results cache
+ *
+ * The lottery routes don't analyze a token inside the request. They queue
+ * a job, and the runner (runQueuedJobs) works through the queue one job at
+ * a time after the response has been sent. There is one job per token or
+ * campaign and sell-check setting: asking again while one is queued or
+ * running returns the same job. Jobs are records with persisted progress,
+ * so any instance can report on them (GET /api/jobs/:id). Each key's jobs
+ * are numbered and created exclusively, so two requests racing to queue
+ * the next one get the same job.
+ *
+ * A job runs inside a request's invocation, which the platform may kill
+ * at maxDuration. Running jobs write a heartbeat, and one that misses it
+ * for STALE_AFTER_MS is queued again with resume, so the next run carries
+ * on where it stopped: the holder fetch from its saved cursor (the job owns
+ * its fetches, see lib/holder-fetches.ts) and the sell checks from the
+ * eligibility cache.
+ *
+ * A finished job saves its analysis under the same key. Every visitor is
+ * served that result, and a new job is only queued once it is older than
+ * RESULT_TTL.
+ */
+
+import { getCampaign } from './campaigns'
+import { listManualExclusions } from './exclusions'
+import { AnalysisOptions, analyzeToken, TokenAnalysis } from './pipeline'
+import { configuredSources } from './sources'
+import { createRecord, deleteRecord, listRecords, readRecord, writeRecord } from './store'
+
+const JOBS = 'jobs'
+const RESULTS = 'analysis-results'
+
+// Results this recent are served without queueing a new job
+export const RESULT_TTL = 5 * 60 * 1000
+// Running jobs write a heartbeat this often
+const HEARTBEAT_MS = 30 * 1000
+// A running job without a heartbeat for this long died with its invocation
+// (well under the routes' maxDuration of 5 minutes)
+const STALE_AFTER_MS = 2 * 60 * 1000
+// Runs before a job that keeps dying is failed
+const MAX_ATTEMPTS = 5
+// Finished jobs are deleted after this long
+const JOB_RETENTION_MS = 60 * 60 * 1000
+// At most one progress write per second
+const PROGRESS_INTERVAL_MS = 1000
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface AnalysisRequest {
+  tokenMint: string
+  // Campaign slug; its sources, rules and exclusions apply
+  campaign?: string
+  checkSells: boolean
+  // Continue a holder fetch that stopped early from its saved cursor
+  resume?: boolean
+}
+
+export interface JobProgress {
+  // 'holders' or 'sell-check' (see AnalysisOptions.onProgress)
+  stage: string
+  done: number
+  // null while unknown
+  total: number | null
+}
+
+export interface AnalysisJob {
+  // `${key}-${generation}`
+  id: string
+  // Results cache key (analysisKey)
+  key: string
+  // Number of the job among its key's jobs, from 1 (0 for older jobs)
+  generation?: number
+  request: AnalysisRequest
+  status: JobStatus
+  createdAt: number
+  updatedAt: number
+  startedAt?: number
+  finishedAt?: number
+  // Runs started, including ones that died
+  attempts: number
+  progress?: JobProgress
+  // Set when failed, with the HTTP status to report it with
+  error?: string
+  errorStatus?: number
+}
+
+// What the lottery routes return from an analysis
+export type AnalysisSummary = Pick<TokenAnalysis, 'token' | 'stats' | 'rules' | 'clusters' | 'completeness' | 'entries'>
+
+export interface CachedAnalysis {
+  key: string
+  jobId: string
+  completedAt: number
+  analysis: AnalysisSummary
+}
+
+/**
+ * Results cache key for a request - resume doesn't change the result
+ */
+export function analysisKey(request: AnalysisRequest): string {
+  const subject = request.campaign ? `campaign-${request.campaign}` : request.tokenMint
+  return `${subject}-${request.checkSells ? 'sells' : 'no-sells'}`
+}
+
+/**
+ * A job, queued again (or failed) if it is running without a heartbeat
+ */
+export async function getJob(id: string): Promise<AnalysisJob | null> {
+  const job = await readRecord<AnalysisJob>(JOBS, id)
+  if (!job || job.status !== 'running' || Date.now() - job.updatedAt <= STALE_AFTER_MS) return job
+
+  if (job.attempts >= MAX_ATTEMPTS) {
+    await finishJob(job, { status: 'failed', error: `Job stopped responding ${job.attempts} times`, errorStatus: 500 })
+    return job
+  }
+
+  job.status = 'queued'
+  job.request = { ...job.request, resume: true }
+  job.updatedAt = Date.now()
+  await writeRecord(JOBS, job.id, job)
+  console.log(`[jobs] ${job.id} (${job.key}) stopped responding, queued again to resume`)
+  return job
+}
+
+export async function getCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+  return readRecord<CachedAnalysis>(RESULTS, key)
+}
+
+/**
+ * All jobs, oldest first - also drops finished jobs past JOB_RETENTION_MS
+ * and queues again running ones whose invocation is gone (see getJob)
+ * The latest job of each key is kept, so its generation isn't reused.
+ */
+async function listJobs(): Promise<AnalysisJob[]> {
+  const now = Date.now()
+  const jobs: AnalysisJob[] = []
+
+  for (const id of await listRecords(JOBS)) {
+    const job = await getJob(id)
+    if (job) jobs.push(job)
+  }
+
+  const latest = new Map<string, number>()
+  for (const job of jobs) latest.set(job.key, Math.max(latest.get(job.key) ?? 0, job.generation ?? 0))
+
+  const kept: AnalysisJob[] = []
+  for (const job of jobs) {
+    const finished = job.status === 'done' || job.status === 'failed'
+    if (finished && now - job.updatedAt > JOB_RETENTION_MS && (job.generation ?? 0) < (latest.get(job.key) ?? 0)) {
+      await deleteRecord(JOBS, job.id)
+      continue
+    }
+    kept.push(job)
+  }
+
+  return kept.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+async function finishJob(
+  job: AnalysisJob,
+  outcome: { status: 'done' } | { status: 'failed'; error: string; errorStatus: number }
+): Promise<void> {
+  const now = Date.now()
+  Object.assign(job, outcome, { updatedAt: now, finishedAt: now })
+  await writeRecord(JOBS, job.id, job)
+  console.log(`[jobs] ${job.id} (${job.key}) ${job.status}${job.error ? `: ${job.error}` : ''}`)
+}
+
+/**
+ * Queue an analysis, or return the job already queued or running for it
+ * The next job of a key is created exclusively - if another request got
+ * there first, its job is returned instead.
+ */
+export async function queueAnalysis(request: AnalysisRequest): Promise<AnalysisJob> {
+  const key = analysisKey(request)
+
+  // Each lost race means a new job was just created, which the next pass finds
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const jobs = (await listJobs()).filter(j => j.key === key)
+    const active = jobs.find(j => j.status === 'queued' || j.status === 'running')
+    if (active) return active
+
+    const generation = jobs.reduce((max, j) => Math.max(max, j.generation ?? 0), 0) + 1
+    const now = Date.now()
+    const job: AnalysisJob = {
+      id: `${key}-${generation}`, key, generation, request, status: 'queued', createdAt: now, updatedAt: now, attempts: 0,
+    }
+    if (await createRecord(JOBS, job.id, job)) {
+      console.log(`[jobs] Queued ${job.id}`)
+      return job
+    }
+  }
+
+  throw new Error(`Could not queue an analysis for ${key}`)
+}
+
+/**
+ * The cached analysis for a request and, when it is missing or older than
+ * RESULT_TTL (or resume is asked for), the job that will refresh it
+ */
+export async function requestAnalysis(
+  request: AnalysisRequest
+): Promise<{ cached: CachedAnalysis | null; job: AnalysisJob | null }> {
+  const cached = await getCachedAnalysis(analysisKey(request))
+  const fresh = cached && Date.now() - cached.completedAt < RESULT_TTL
+
+  if (fresh && !request.resume) return { cached, job: null }
+  return { cached, job: await queueAnalysis(request) }
+}
+
+/**
+ * Run one job and save its result
+ */
+async function runJob(job: AnalysisJob): Promise<void> {
+  job.status = 'running'
+  job.startedAt = Date.now()
+  job.updatedAt = job.startedAt
+  job.attempts++
+  await writeRecord(JOBS, job.id, job)
+  console.log(`[jobs] Running ${job.id} (${job.key})${job.attempts > 1 ? `, attempt ${job.attempts}` : ''}`)
+
+  const { tokenMint, campaign: slug, checkSells, resume } = job.request
+
+  // Progress and heartbeat writes are chained so they land in order
+  let writing = Promise.resolve()
+  const save = () => {
+    job.updatedAt = Date.now()
+    writing = writing.then(() => writeRecord(JOBS, job.id, job)).catch(error => {
+      console.error(`[jobs] Could not save progress of ${job.id}:`, error)
+    })
+  }
+
+  const onProgress: AnalysisOptions['onProgress'] = (stage, done, total) => {
+    job.progress = { stage, done, total }
+    if (Date.now() - job.updatedAt >= PROGRESS_INTERVAL_MS || done === total) save()
+  }
+  const heartbeat = setInterval(save, HEARTBEAT_MS)
+
+  try {
+    let analysis
+    if (slug) {
+      const campaign = await getCampaign(slug)
+      if (!campaign) {
+        clearInterval(heartbeat)
+        await writing
+        await finishJob(job, { status: 'failed', error: 'Campaign not found', errorStatus: 404 })
+        return
+      }
+
+      analysis = await analyzeToken(campaign.tokenMint, configuredSources(campaign.sources), {
+        checkSells,
+        resume,
+        rules: campaign.rules,
+        manualExclusions: await listManualExclusions(slug),
+        owner: job.id,
+        onProgress,
+      })
+    } else {
+      analysis = await analyzeToken(tokenMint, configuredSources(), { checkSells, resume, owner: job.id, onProgress })
+    }
+    clearInterval(heartbeat)
+    await writing
+
+    if (!analysis.ok) {
+      await finishJob(job, { status: 'failed', error: analysis.error, errorStatus: analysis.status })
+      return
+    }
+
+    const { token, stats, rules, clusters, completeness, entries } = analysis.analysis
+    const cached: CachedAnalysis = {
+      key: job.key,
+      jobId: job.id,
+      completedAt: Date.now(),
+      analysis: { token, stats, rules, clusters, completeness, entries },
+    }
+    await writeRecord(RESULTS, job.key, cached)
+    await finishJob(job, { status: 'done' })
+
+  } catch (error) {
+    clearInterval(heartbeat)
+    await writing
+    console.error(`[jobs] Error in ${job.id}:`, error)
+    await finishJob(job, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorStatus: 500,
+    })
+  }
+}
+
+let draining: Promise<void> | null = null
+
+/**
+ * Run queued jobs, oldest first, until the queue is empty
+ * Only one runner per process - calling this while it runs joins it.
+ */
+export function runQueuedJobs(): Promise<void> {
+  draining ??= (async () => {
+    try {
+      let next = (await listJobs()).find(j => j.status === 'queued')
+      while (next) {
+        await runJob(next)
+        next = (await listJobs()).find(j => j.status === 'queued')
+      }
+    } finally {
+      draining = null
+    }
+  })()
+  return draining
+}
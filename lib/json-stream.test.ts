@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { readJsonStream } from './json-stream'
+
+// Keys and strings with brackets, escapes and multi-byte characters
+const ITEMS = [
+  { pubkey: 'A]}', account: { data: ['x\\"[{', 'base64'] } },
+  { pubkey: 'é€😀', account: { data: [], nested: [[1], { '"value"': [] }] } },
+  { pubkey: 'C', account: {} },
+]
+const DOCUMENT = JSON.stringify({
+  jsonrpc: '2.0',
+  result: { context: { slot: 5, value: ['not this one'] }, value: ITEMS },
+  id: 1,
+})
+const REST = { jsonrpc: '2.0', result: { context: { slot: 5, value: ['not this one'] }, value: [] }, id: 1 }
+
+// A body delivering `bytes` in the given chunks
+function body(bytes: Uint8Array, cuts: number[]): ReadableStream<Uint8Array> {
+  const bounds = [0, ...cuts, bytes.length]
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 1; i < bounds.length; i++) controller.enqueue(bytes.slice(bounds[i - 1], bounds[i]))
+      controller.close()
+    },
+  })
+}
+
+async function read(cuts: number[]) {
+  const items: unknown[] = []
+  const rest = await readJsonStream(body(new TextEncoder().encode(DOCUMENT), cuts), ['result', 'value'], async chunk => {
+    items.push(...chunk)
+  })
+  return { items, rest }
+}
+
+describe('readJsonStream', () => {
+  it('reads a document in one chunk', async () => {
+    assert.deepEqual(await read([]), { items: ITEMS, rest: REST })
+  })
+
+  it('reads the same wherever the chunks are cut', async () => {
+    const length = new TextEncoder().encode(DOCUMENT).length
+    for (let cut = 1; cut < length; cut++) {
+      assert.deepEqual(await read([cut]), { items: ITEMS, rest: REST }, `cut at byte ${cut}`)
+    }
+  })
+
+  it('reads a byte at a time', async () => {
+    const length = new TextEncoder().encode(DOCUMENT).length
+    const cuts = Array.from({ length: length - 1 }, (_, i) => i + 1)
+    assert.deepEqual(await read(cuts), { items: ITEMS, rest: REST })
+  })
+
+  it('rejects items that are not objects or arrays', async () => {
+    const stream = body(new TextEncoder().encode('{"result":{"value":[1,2]}}'), [])
+    await assert.rejects(readJsonStream(stream, ['result', 'value'], async () => undefined), /Expected an object or array in result.value/)
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Streaming JSON reader
+ * For responses too large to parse in one piece (getProgramAccounts on a
+ * large mint can return hundreds of MB): the items of one array are parsed
+ * and handed over as they arrive, and only the rest of the document is kept.
+ */
+
+interface Frame {
+  kind: 'object' | 'array'
+  // Key of the value being read, in an object
+  key: string | null
+  expectKey: boolean
+}
+
+/**
+ * Read a JSON body, passing the items of the array at `arrayPath` (object
+ * keys from the top) to onItems a chunk at a time. Returns the rest of the
+ * document, with that array left empty.
+ *
+ * The array's items must be objects or arrays.
+ */
+export async function readJsonStream(
+  body: ReadableStream<Uint8Array>,
+  arrayPath: string[],
+  onItems: (items: unknown[]) => Promise<void>
+): Promise<unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+
+  const frames: Frame[] = []
+  let skeleton = ''
+  let inString = false
+  let escaped = false
+  // Object key being read, if any
+  let key: string | null = null
+  // Depth of the array at arrayPath while inside it, else -1
+  let arrayDepth = -1
+  // Text of the item being read, up to the current chunk
+  let item = ''
+  let itemStart = -1
+
+  const atArrayPath = () => frames.length === arrayPath.length &&
+    frames.every((frame, i) => frame.kind === 'object' && frame.key === arrayPath[i])
+
+  const processChunk = (text: string): unknown[] => {
+    const items: unknown[] = []
+    if (itemStart !== -1) itemStart = 0
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i]
+      const inItem = itemStart !== -1
+
+      if (inString) {
+        if (escaped) escaped = false
+        else if (c === '\\') escaped = true
+        else if (c === '"') {
+          inString = false
+          if (key !== null) {
+            frames[frames.length - 1].key = key
+            frames[frames.length - 1].expectKey = false
+            key = null
+          }
+        } else if (key !== null) key += c
+        if (arrayDepth === -1) skeleton += c
+        continue
+      }
+
+      // Between the items of the array
+      if (arrayDepth !== -1 && !inItem && frames.length === arrayDepth) {
+        if (c === ']') {
+          frames.pop()
+          arrayDepth = -1
+          skeleton += c
+        } else if (c === '{' || c === '[') {
+          itemStart = i
+          frames.push({ kind: c === '{' ? 'object' : 'array', key: null, expectKey: c === '{' })
+        } else if (c !== ',' && c.trim()) {
+          throw new Error(`Expected an object or array in ${arrayPath.join('.')}`)
+        }
+        continue
+      }
+
+      const top = frames[frames.length - 1]
+      if (c === '"') {
+        inString = true
+        if (top?.kind === 'object' && top.expectKey) key = ''
+      } else if (c === '{') {
+        frames.push({ kind: 'object', key: null, expectKey: true })
+      } else if (c === '[') {
+        if (arrayDepth === -1 && atArrayPath()) {
+          frames.push({ kind: 'array', key: null, expectKey: false })
+          arrayDepth = frames.length
+          skeleton += c
+          continue
+        }
+        frames.push({ kind: 'array', key: null, expectKey: false })
+      } else if (c === '}' || c === ']') {
+        frames.pop()
+        if (inItem && frames.length === arrayDepth) {
+          items.push(JSON.parse(item + text.slice(itemStart, i + 1)))
+          item = ''
+          itemStart = -1
+          continue
+        }
+      } else if (c === ',' && top?.kind === 'object') {
+        top.expectKey = true
+      }
+
+      if (arrayDepth === -1) skeleton += c
+    }
+
+    if (itemStart !== -1) item += text.slice(itemStart)
+    return items
+  }
+
+  let done = false
+  while (!done) {
+    const chunk = await reader.read()
+    done = chunk.done
+    const items = processChunk(decoder.decode(chunk.value, { stream: !done }))
+    if (items.length > 0) await onItems(items)
+  }
+
+  return JSON.parse(skeleton)
+}
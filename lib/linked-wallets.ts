@@ -0,0 +1,56 @@
+/**
+ * Declared linked wallet groups
+ * Wallets in the same group belong to one holder, so moving tokens
+ * between them is not a sale (see lib/classifier.ts)
+ */
+
+import { createHash } from 'crypto'
+import { listRecords, readRecord, writeRecord } from './store'
+
+const COLLECTION = 'linked-wallets'
+
+export interface LinkedWalletGroup {
+  id: string
+  wallets: string[]
+  note?: string
+  createdAt: number
+}
+
+/**
+ * Save a group of linked wallets
+ * The id is derived from the sorted wallet list, so re-declaring a group is a no-op
+ */
+export async function saveLinkedWalletGroup(wallets: string[], note?: string): Promise<LinkedWalletGroup> {
+  const sorted = Array.from(new Set(wallets)).sort()
+  if (sorted.length < 2) {
+    throw new Error('A linked wallet group needs at least two wallets')
+  }
+
+  const id = createHash('sha256').update(sorted.join(',')).digest('hex').slice(0, 16)
+  const existing = await readRecord<LinkedWalletGroup>(COLLECTION, id)
+  if (existing) return existing
+
+  const group: LinkedWalletGroup = { id, wallets: sorted, note, createdAt: Date.now() }
+  await writeRecord(COLLECTION, id, group)
+  return group
+}
+
+export async function listLinkedWalletRecords(): Promise<LinkedWalletGroup[]> {
+  const ids = await listRecords(COLLECTION)
+  const groups: LinkedWalletGroup[] = []
+
+  for (const id of ids) {
+    const group = await readRecord<LinkedWalletGroup>(COLLECTION, id)
+    if (group) groups.push(group)
+  }
+
+  return groups
+}
+
+/**
+ * Wallet lists of every declared group
+ */
+export async function listLinkedWalletGroups(): Promise<string[][]> {
+  const groups = await listLinkedWalletRecords()
+  return groups.map(g => g.wallets)
+}
@@ -0,0 +1,213 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'crypto'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, it } from 'node:test'
+import {
+  buildMerkleLeaves,
+  buildMerkleProof,
+  buildMerkleRoot,
+  compareWallets,
+  createSnapshot,
+  decodeBlockHash,
+  drawSeed,
+  LotteryEntry,
+  pickWinnersVerifiable,
+  pickWinnerVerifiable,
+  uniformTicketIndex,
+  verifyMerkleProof,
+  verifyWinners,
+  winningTicketFromSeed,
+} from './lottery'
+import { DEFAULT_RULES } from './rules'
+
+// Deterministic seeds, so the statistical tests can't flake
+function testSeed(i: number): Uint8Array {
+  return createHash('sha256').update(`bagslotto-test-${i}`).digest()
+}
+
+/**
+ * Pearson's chi-square statistic of observed counts against expected ones
+ */
+function chiSquare(observed: number[], expected: number[]): number {
+  return observed.reduce((sum, count, i) => sum + (count - expected[i]) ** 2 / expected[i], 0)
+}
+
+/**
+ * Rows of the README's test vector table
+ */
+function readTestVectors(): { blockHash: string; hex: string; winners: Record<number, number> }[] {
+  const readme = readFileSync(join(__dirname, '..', 'README.md'), 'utf8')
+  const section = readme.slice(readme.indexOf('### Test vectors'))
+  const header = section.split('\n').find(line => line.startsWith('| Block hash'))
+  assert.ok(header, 'README test vector table not found')
+
+  const ranges = header.split('|').slice(3, -1).map(cell => Number(cell.replace(/[^0-9]/g, '')))
+  const rows = section.split('\n').filter(line => /^\| `[1-9A-HJ-NP-Za-km-z]+` \|/.test(line))
+
+  return rows.map(line => {
+    const [blockHash, hex, ...tickets] = line.split('|').slice(1, -1).map(cell => cell.trim().replace(/`/g, ''))
+    const winners: Record<number, number> = {}
+    ranges.forEach((range, i) => { winners[range] = Number(tickets[i].replace(/,/g, '')) })
+    return { blockHash, hex, winners }
+  })
+}
+
+describe('uniformTicketIndex', () => {
+  it('rejects ranges that are not positive safe integers', () => {
+    for (const range of [0, -1, 1.5, NaN, Number.MAX_SAFE_INTEGER + 1]) {
+      assert.throws(() => uniformTicketIndex(testSeed(0), range))
+    }
+  })
+
+  it('always returns 0 for a range of 1', () => {
+    for (let i = 0; i < 100; i++) assert.equal(uniformTicketIndex(testSeed(i), 1), 0)
+  })
+
+  it('is uniform over 7 tickets', () => {
+    const samples = 70000
+    const counts = new Array(7).fill(0)
+    for (let i = 0; i < samples; i++) counts[uniformTicketIndex(testSeed(i), 7)]++
+
+    // 6 degrees of freedom, p = 0.001
+    assert.ok(chiSquare(counts, new Array(7).fill(samples / 7)) < 22.46, `counts ${counts.join(', ')}`)
+  })
+
+  it('is uniform over 123,457 tickets', () => {
+    const range = 123457
+    const buckets = 50
+    const samples = 100000
+
+    // Buckets of consecutive indexes, sized within one ticket of each other
+    const bucketOf = (index: number) => Math.floor(index * buckets / range)
+    const sizes = new Array(buckets).fill(0)
+    for (let index = 0; index < range; index++) sizes[bucketOf(index)]++
+
+    const counts = new Array(buckets).fill(0)
+    for (let i = 0; i < samples; i++) {
+      const index = uniformTicketIndex(testSeed(i), range)
+      assert.ok(index >= 0 && index < range)
+      counts[bucketOf(index)]++
+    }
+
+    // 49 degrees of freedom, p = 0.001
+    const expected = sizes.map(size => samples * size / range)
+    assert.ok(chiSquare(counts, expected) < 85.35, `counts ${counts.join(', ')}`)
+  })
+})
+
+describe('wallet order', () => {
+  it('sorts by code unit, uppercase before lowercase', () => {
+    const wallets = ['abc', 'Abd', 'ABC', 'b', '9z', 'Ab']
+    assert.deepEqual([...wallets].sort(compareWallets), ['9z', 'ABC', 'Ab', 'Abd', 'abc', 'b'])
+  })
+
+  it('orders snapshot entries the same way', () => {
+    const entry = (wallet: string) => ({ wallet, amount: '10000000000', tickets: 1, eligible: true })
+    const snapshot = createSnapshot(['bB', 'Ba', 'ba', 'BA'].map(entry), 'mint', 6, DEFAULT_RULES)
+    assert.deepEqual(snapshot.entries.map(e => e.wallet), ['BA', 'Ba', 'bB', 'ba'])
+  })
+})
+
+const BLOCK_HASH = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'
+
+// Eligible entries for wallets W0..W{n-1}, W{i} holding i + 1 tickets
+function entries(n: number): LotteryEntry[] {
+  return Array.from({ length: n }, (_, i) => ({ wallet: `W${i}`, amount: String((i + 1) * 10_000_000_000), tickets: i + 1, eligible: true }))
+}
+
+describe('Merkle proofs', () => {
+  it('gives leaves consecutive ticket ranges', () => {
+    assert.deepEqual(buildMerkleLeaves(entries(3)).map(l => [l.firstTicket, l.lastTicket]), [[1, 1], [2, 3], [4, 6]])
+  })
+
+  // Odd sizes carry a node up without a sibling
+  for (const size of [1, 2, 3, 5, 8]) {
+    it(`proves every wallet of ${size}`, () => {
+      const list = entries(size)
+      const root = buildMerkleRoot(list)
+      for (const { wallet } of list) {
+        const proof = buildMerkleProof(list, wallet)
+        assert.ok(proof && verifyMerkleProof(proof, root), wallet)
+      }
+    })
+  }
+
+  it('rejects a changed leaf or a proof against another root', () => {
+    const list = entries(5)
+    const proof = buildMerkleProof(list, 'W2')
+    assert.ok(proof)
+
+    assert.equal(verifyMerkleProof({ ...proof, leaf: { ...proof.leaf, tickets: 30 } }, buildMerkleRoot(list)), false)
+    assert.equal(verifyMerkleProof(proof, buildMerkleRoot(entries(4))), false)
+  })
+
+  it('has no proof for a wallet that is not in the entries', () => {
+    assert.equal(buildMerkleProof(entries(3), 'Nobody'), null)
+  })
+})
+
+describe('multi-winner draws', () => {
+  const tiers = [{ label: 'Grand', count: 1 }, { label: 'Runner-up', count: 3 }]
+
+  it('derives a new seed per draw, keeping the block hash for the first', () => {
+    const seed = decodeBlockHash(BLOCK_HASH)
+    assert.equal(drawSeed(seed, 0), seed)
+    assert.notDeepEqual(drawSeed(seed, 1), seed)
+    assert.notDeepEqual(drawSeed(seed, 1), drawSeed(seed, 2))
+  })
+
+  it('picks the single-draw winner first and a wallet only once', () => {
+    const list = entries(6)
+    const result = pickWinnersVerifiable(list, BLOCK_HASH, 1, tiers)
+    assert.ok(result)
+
+    assert.deepEqual(result.winners.map(w => [w.rank, w.tier]), [[1, 'Grand'], [2, 'Runner-up'], [3, 'Runner-up'], [4, 'Runner-up']])
+    assert.equal(result.winners[0].wallet, pickWinnerVerifiable(list, BLOCK_HASH, 1)?.winner.wallet)
+    assert.equal(new Set(result.winners.map(w => w.wallet)).size, 4)
+    // Each pick leaves the pool smaller by the winner's tickets
+    const tickets = (wallet: string) => Number(wallet.slice(1)) + 1
+    const { winners } = result
+    for (let i = 1; i < winners.length; i++) {
+      assert.equal(winners[i].poolTickets, winners[i - 1].poolTickets - tickets(winners[i - 1].wallet))
+    }
+  })
+
+  it('stops when the pool runs out', () => {
+    assert.equal(pickWinnersVerifiable(entries(2), BLOCK_HASH, 1, tiers)?.winners.length, 2)
+    // With ticket removal a wallet can win again, until its tickets run out
+    assert.equal(pickWinnersVerifiable(entries(2), BLOCK_HASH, 1, tiers, 'ticket')?.winners.length, 3)
+  })
+
+  it('verifies the winners from the snapshot, in order', () => {
+    const snapshot = createSnapshot(entries(6), 'mint', 6, DEFAULT_RULES)
+    for (const removal of ['wallet', 'ticket'] as const) {
+      const winners = pickWinnersVerifiable(snapshot.entries, BLOCK_HASH, 1, tiers, removal)?.winners.map(w => w.wallet) ?? []
+      assert.equal(verifyWinners(snapshot, BLOCK_HASH, tiers, winners, removal).valid, true)
+
+      const swapped = [winners[1], winners[0], ...winners.slice(2)]
+      assert.deepEqual(verifyWinners(snapshot, BLOCK_HASH, tiers, swapped, removal).mismatches, [1, 2])
+    }
+  })
+})
+
+describe('README test vectors', () => {
+  const vectors = readTestVectors()
+
+  it('has all five rows', () => {
+    assert.equal(vectors.length, 5)
+  })
+
+  for (const { blockHash, hex, winners } of vectors) {
+    it(`matches ${blockHash}`, () => {
+      const seed = decodeBlockHash(blockHash)
+      const [start, end] = hex.split('…')
+      const seedHex = Buffer.from(seed).toString('hex')
+      assert.ok(seedHex.startsWith(start) && seedHex.endsWith(end), `hex bytes ${seedHex}`)
+
+      for (const [range, ticket] of Object.entries(winners)) {
+        assert.equal(winningTicketFromSeed(seed, Number(range)), ticket, `${range} tickets`)
+      }
+    })
+  }
+})
@@ -1,19 +1,62 @@
 /**
  * BAGSLOTTERY Core Logic
  *
- * Rules:
+ * Rules (defaults, see lib/rules.ts):
  * - Every 10,000 tokens = 1 ticket
  * - Maximum 20,000,000 tokens = 2,000 tickets max
  * - Only wallets that have NEVER sold are eligible
- * - LP addresses are excluded
+ * - LP, program and manually excluded addresses are left out (lib/exclusions.ts)
  */
 
+import { createHash } from 'crypto'
+import { DEFAULT_RULES, holdingBonusPercent, LotteryRules, ticketsForAmount } from './rules'
+import type { AppliedExclusion } from './exclusions'
+
+/**
+ * Why a wallet is not eligible
+ * - dex_swap / exchange_deposit / transfer_out: tokens left the wallet (see lib/classifier.ts)
+ * - check_failed: history couldn't be verified, so the wallet is excluded to be safe
+ */
+export type IneligibleCode = 'dex_swap' | 'exchange_deposit' | 'transfer_out' | 'check_failed'
+
+export interface EligibilityReason {
+  code: IneligibleCode
+  message: string
+  signature?: string
+  amount?: number
+}
+
+// Where a wallet's SOL and tokens came from, for cluster detection
+export interface WalletLinks {
+  // Sender of the oldest incoming SOL transfer seen
+  fundedBy?: string
+  // Plain transfers of the token into the wallet (not swaps)
+  tokenSenders?: Array<{ from: string; at: number }>
+}
+
+export interface Eligibility {
+  eligible: boolean
+  reason?: EligibilityReason
+  // First time the wallet received the token (unix seconds), if known
+  firstAcquiredAt?: number
+  links?: WalletLinks
+}
+
 export interface LotteryEntry {
   wallet: string
-  balance: number
+  // Raw base-unit amount as a decimal string (exact, no float rounding)
+  amount: string
   tickets: number
   eligible: boolean
-  reason?: string
+  reason?: EligibilityReason
+  // Holding bonus inputs (only when the rules have a holding bonus)
+  firstAcquiredAt?: number
+  heldWeeks?: number
+  bonusPercent?: number
+  // Wallet cluster this entry belongs to (see lib/clusters.ts)
+  cluster?: string
+  // Cluster's total tickets before the cluster cap (only when capped)
+  clusterTickets?: number
 }
 
 export interface LotteryResult {
@@ -32,46 +75,96 @@ export interface LotterySnapshot {
   totalEligible: number
   snapshotTime: number
   tokenMint: string
+  // Token decimals, to turn raw entry amounts into whole tokens
+  decimals: number
+  // Rules the ticket counts were calculated with
+  rules: LotteryRules
+  merkleRoot: string
+  // Slot the holder balances were read at (point-in-time snapshot)
+  slot?: number
+  // Holders left out and why (LPs, programs, manual entries)
+  exclusions?: AppliedExclusion[]
+  // Time (unix seconds) entries' heldWeeks are counted up to
+  asOf?: number
+}
+
+/**
+ * Calculate number of tickets for a raw base-unit amount
+ * heldWeeks only matters when the rules have a holding bonus
+ */
+export function calculateTickets(
+  amount: string | bigint,
+  decimals: number,
+  rules: LotteryRules = DEFAULT_RULES,
+  heldWeeks: number = 0
+): number {
+  return ticketsForAmount(amount, decimals, rules, heldWeeks)
 }
 
-const TOKENS_PER_TICKET = 10_000
-const MAX_TOKENS = 20_000_000
-const MAX_TICKETS = 2_000
+const SECONDS_PER_WEEK = 7 * 24 * 60 * 60
 
 /**
- * Calculate number of tickets for a balance
+ * Whole weeks between first acquisition and asOf (both unix seconds)
  */
-export function calculateTickets(balance: number): number {
-  // Cap at max tokens
-  const cappedBalance = Math.min(balance, MAX_TOKENS)
-  // Floor to whole tickets only
-  const tickets = Math.floor(cappedBalance / TOKENS_PER_TICKET)
-  // Cap at max tickets (should be same as max tokens calc but being explicit)
-  return Math.min(tickets, MAX_TICKETS)
+export function weeksHeld(firstAcquiredAt: number, asOf: number): number {
+  return Math.max(0, Math.floor((asOf - firstAcquiredAt) / SECONDS_PER_WEEK))
+}
+
+/**
+ * Sum balances per owner
+ * A wallet can hold the mint in several token accounts (extra accounts,
+ * Token-2022); the cap and minimum apply to the wallet as a whole
+ */
+export function aggregateHoldersByOwner<T extends { owner: string; amount: string }>(
+  holders: T[]
+): Array<{ owner: string; amount: string }> {
+  const totals = new Map<string, bigint>()
+  for (const holder of holders) {
+    totals.set(holder.owner, (totals.get(holder.owner) ?? BigInt(0)) + BigInt(holder.amount))
+  }
+
+  return Array.from(totals)
+    .sort((a, b) => (a[1] === b[1] ? 0 : a[1] > b[1] ? -1 : 1))
+    .map(([owner, amount]) => ({ owner, amount: amount.toString() }))
 }
 
 /**
  * Build lottery entries from holder data and eligibility
+ * Holders are aggregated per owner first, so each wallet gets one entry
+ *
+ * With a holding bonus in the rules, each entry records its first
+ * acquisition, whole weeks held as of `asOf` (unix seconds, kept in the
+ * snapshot) and the bonus applied, so the ticket count can be reproduced
+ * from the snapshot alone.
  */
 export function buildLotteryEntries(
-  holders: Array<{ owner: string; balance: number }>,
-  eligibilityMap: Map<string, { eligible: boolean; reason?: string }>
+  holders: Array<{ owner: string; amount: string }>,
+  eligibilityMap: Map<string, Eligibility>,
+  decimals: number,
+  rules: LotteryRules,
+  asOf: number
 ): LotteryEntry[] {
   const entries: LotteryEntry[] = []
 
-  for (const holder of holders) {
+  for (const holder of aggregateHoldersByOwner(holders)) {
     const eligibility = eligibilityMap.get(holder.owner)
-    const tickets = calculateTickets(holder.balance)
 
-    // Must have at least 1 ticket (10k tokens)
+    const firstAcquiredAt = rules.holdingBonus ? eligibility?.firstAcquiredAt : undefined
+    const heldWeeks = firstAcquiredAt !== undefined ? weeksHeld(firstAcquiredAt, asOf) : 0
+    const tickets = calculateTickets(holder.amount, decimals, rules, heldWeeks)
+
+    // Must have at least 1 ticket
     if (tickets < 1) continue
 
     entries.push({
       wallet: holder.owner,
-      balance: holder.balance,
+      amount: holder.amount,
       tickets,
       eligible: eligibility?.eligible ?? false,
       reason: eligibility?.reason,
+      ...(rules.holdingBonus
+        ? { firstAcquiredAt, heldWeeks, bonusPercent: holdingBonusPercent(heldWeeks, rules) }
+        : {}),
     })
   }
 
@@ -97,10 +190,10 @@ export function pickWinner(entries: LotteryEntry[]): LotteryResult | null {
   // Calculate total tickets
   const totalTickets = eligible.reduce((sum, e) => sum + e.tickets, 0)
 
-  // Generate random number between 1 and totalTickets
-  const randomBytes = new Uint32Array(1)
-  crypto.getRandomValues(randomBytes)
-  const winningTicket = (randomBytes[0] % totalTickets) + 1
+  // Generate a random 32-byte seed and map it to a ticket between 1 and totalTickets
+  const seed = new Uint8Array(32)
+  crypto.getRandomValues(seed)
+  const winningTicket = winningTicketFromSeed(seed, totalTickets)
 
   // Find the winner
   let ticketCount = 0
@@ -121,6 +214,15 @@ export function pickWinner(entries: LotteryEntry[]): LotteryResult | null {
   return null
 }
 
+/**
+ * Order addresses by UTF-16 code unit, the order snapshot entries, ticket
+ * ranges and Merkle leaves use. Unlike localeCompare it doesn't depend on
+ * the runtime's locale or ICU data, so every verifier gets the same order.
+ */
+export function compareWallets(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
 /**
  * VERIFIABLE RANDOM WINNER SELECTION
  *
@@ -131,11 +233,12 @@ export function pickWinner(entries: LotteryEntry[]): LotteryResult | null {
  * 3. Anyone can verify the result using the same inputs
  *
  * Algorithm:
- * winningTicket = (BigInt('0x' + blockHash) % BigInt(totalTickets)) + 1n
+ * seed = decodeBlockHash(blockHash)            // 32 bytes
+ * winningTicket = uniformTicketIndex(seed, totalTickets) + 1
  */
 export function pickWinnerVerifiable(
   entries: LotteryEntry[],
-  blockHash: string,
+  blockHash: BlockHashInput,
   blockSlot: number
 ): LotteryResult | null {
   // Filter to only eligible entries
@@ -147,37 +250,27 @@ export function pickWinnerVerifiable(
   }
 
   // Sort entries deterministically by wallet address for reproducibility
-  eligible.sort((a, b) => a.wallet.localeCompare(b.wallet))
+  eligible.sort((a, b) => compareWallets(a.wallet, b.wallet))
 
   // Calculate total tickets
   const totalTickets = eligible.reduce((sum, e) => sum + e.tickets, 0)
 
-  // Convert block hash to winning ticket number
-  // Remove '0x' prefix if present
-  const cleanHash = blockHash.startsWith('0x') ? blockHash.slice(2) : blockHash
-  const hashBigInt = BigInt('0x' + cleanHash)
-  const winningTicketBigInt = (hashBigInt % BigInt(totalTickets)) + BigInt(1)
-  const winningTicket = Number(winningTicketBigInt)
+  // Decode the block hash (base58, hex or raw bytes) and derive the winning ticket
+  const seed = decodeBlockHash(blockHash)
+  const winningTicket = winningTicketFromSeed(seed, totalTickets)
 
-  // Find the winner by iterating through sorted entries
-  let ticketCount = 0
-  for (const entry of eligible) {
-    ticketCount += entry.tickets
-    if (ticketCount >= winningTicket) {
-      return {
-        winner: entry,
-        totalTickets,
-        totalEligible: eligible.length,
-        winningTicket,
-        timestamp: Date.now(),
-        blockHash: cleanHash,
-        blockSlot,
-      }
-    }
-  }
+  const winner = findTicketHolder(eligible, winningTicket)
+  if (!winner) return null
 
-  // Should never reach here
-  return null
+  return {
+    winner,
+    totalTickets,
+    totalEligible: eligible.length,
+    winningTicket,
+    timestamp: Date.now(),
+    blockHash: encodeBase58(seed),
+    blockSlot,
+  }
 }
 
 /**
@@ -186,11 +279,16 @@ export function pickWinnerVerifiable(
  */
 export function createSnapshot(
   entries: LotteryEntry[],
-  tokenMint: string
+  tokenMint: string,
+  decimals: number,
+  rules: LotteryRules,
+  slot?: number,
+  exclusions?: AppliedExclusion[],
+  asOf?: number
 ): LotterySnapshot {
   const eligible = entries.filter(e => e.eligible && e.tickets > 0)
   // Sort deterministically
-  eligible.sort((a, b) => a.wallet.localeCompare(b.wallet))
+  eligible.sort((a, b) => compareWallets(a.wallet, b.wallet))
 
   return {
     entries: eligible,
@@ -198,7 +296,42 @@ export function createSnapshot(
     totalEligible: eligible.length,
     snapshotTime: Date.now(),
     tokenMint,
+    decimals,
+    rules,
+    merkleRoot: buildMerkleRoot(eligible),
+    slot,
+    exclusions: exclusions && [...exclusions].sort((a, b) => compareWallets(a.address, b.address)),
+    asOf,
+  }
+}
+
+/**
+ * Serialize a value as canonical JSON: object keys sorted, no whitespace,
+ * undefined fields dropped. The same snapshot always yields the same bytes.
+ */
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
   }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJSON(item))).join(',')}]`
+  }
+
+  const fields = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`)
+
+  return `{${fields.join(',')}}`
+}
+
+/**
+ * SHA-256 commitment (hex) over the canonical JSON form of a snapshot
+ * Publish this before the target block so the snapshot can't be changed later
+ */
+export function snapshotCommitment(snapshot: LotterySnapshot): string {
+  return createHash('sha256').update(canonicalJSON(snapshot)).digest('hex')
 }
 
 /**
@@ -207,28 +340,490 @@ export function createSnapshot(
  */
 export function verifyResult(
   snapshot: LotterySnapshot,
-  blockHash: string,
+  blockHash: BlockHashInput,
   claimedWinner: string
 ): { valid: boolean; calculatedWinner: string; winningTicket: number } {
-  const cleanHash = blockHash.startsWith('0x') ? blockHash.slice(2) : blockHash
-  const hashBigInt = BigInt('0x' + cleanHash)
-  const winningTicketBigInt = (hashBigInt % BigInt(snapshot.totalTickets)) + BigInt(1)
-  const winningTicket = Number(winningTicketBigInt)
+  const seed = decodeBlockHash(blockHash)
+  const winningTicket = winningTicketFromSeed(seed, snapshot.totalTickets)
 
   // Find winner from snapshot
+  const winner = findTicketHolder(snapshot.entries, winningTicket)
+  if (!winner) {
+    return { valid: false, calculatedWinner: '', winningTicket }
+  }
+
+  return {
+    valid: winner.wallet === claimedWinner,
+    calculatedWinner: winner.wallet,
+    winningTicket,
+  }
+}
+
+// =============================================================================
+// SEED DERIVATION
+// =============================================================================
+//
+// Solana block hashes are 32-byte values, normally shown as base58 strings
+// (e.g. what `getBlock` returns in `blockhash`). Older tooling and some
+// explorers show them as hex, so both are accepted, as are raw bytes.
+//
+// Derivation, step by step:
+// 1. Decode the block hash to exactly 32 bytes
+//    - Uint8Array: used as-is
+//    - '0x' prefix or 64 hex characters: hex
+//    - anything else: base58 (Bitcoin alphabet, as used by Solana)
+// 2. Expand the seed into a stream of SHA-256 blocks:
+//    block[i] = SHA-256(seed || uint32BE(i)), i = 0, 1, 2, ...
+// 3. Read each block as four unsigned big-endian 64-bit candidates. Reject
+//    any candidate >= floor(2^64 / totalTickets) * totalTickets (this is what
+//    removes modulo bias); the first accepted candidate gives
+//    winningTicket = (candidate % totalTickets) + 1
+// 4. Walk the entries (sorted by wallet code unit, see compareWallets)
+//    summing tickets; the first entry whose running total reaches
+//    winningTicket is the winner
+//
+// Test vectors (see README "Verifying a Draw" for the full table):
+//   11111111111111111111111111111111             totalTickets 1000 -> ticket 887
+//   4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi  totalTickets 1000 -> ticket 810
+//   GHtXQBsoZHVnNFa9YevAzFr17DJjgHXk3ycTKD5xD3Zi totalTickets 1000 -> ticket 38
+
+export type BlockHashInput = string | Uint8Array
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+const BLOCK_HASH_BYTES = 32
+
+/**
+ * Decode a base58 string to bytes (leading '1's become leading zero bytes)
+ */
+export function decodeBase58(value: string): Uint8Array {
+  let num = BigInt(0)
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit === -1) {
+      throw new Error(`Invalid base58 character '${char}'`)
+    }
+    num = num * BigInt(58) + BigInt(digit)
+  }
+
+  const bytes: number[] = []
+  while (num > BigInt(0)) {
+    bytes.unshift(Number(num & BigInt(0xff)))
+    num >>= BigInt(8)
+  }
+
+  let leadingZeros = 0
+  while (leadingZeros < value.length && value[leadingZeros] === '1') leadingZeros++
+
+  return Uint8Array.from([...new Array(leadingZeros).fill(0), ...bytes])
+}
+
+/**
+ * Encode bytes as a base58 string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let num = BigInt(0)
+  for (const byte of bytes) {
+    num = (num << BigInt(8)) + BigInt(byte)
+  }
+
+  let encoded = ''
+  while (num > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(num % BigInt(58))] + encoded
+    num /= BigInt(58)
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    encoded = '1' + encoded
+  }
+
+  return encoded
+}
+
+/**
+ * Decode a block hash (base58, hex or bytes) to its 32 raw bytes
+ * Throws if the input is malformed or not exactly 32 bytes long
+ */
+export function decodeBlockHash(blockHash: BlockHashInput): Uint8Array {
+  let bytes: Uint8Array
+
+  if (blockHash instanceof Uint8Array) {
+    bytes = blockHash
+  } else {
+    const value = blockHash.trim()
+    const hasHexPrefix = value.startsWith('0x')
+
+    if (hasHexPrefix || /^[0-9a-fA-F]{64}$/.test(value)) {
+      const hex = hasHexPrefix ? value.slice(2) : value
+      if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error(`Invalid hex block hash: ${blockHash}`)
+      }
+      bytes = Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16))
+    } else {
+      bytes = decodeBase58(value)
+    }
+  }
+
+  if (bytes.length !== BLOCK_HASH_BYTES) {
+    throw new Error(`Block hash must be ${BLOCK_HASH_BYTES} bytes, got ${bytes.length}`)
+  }
+
+  return bytes
+}
+
+const UINT64_RANGE = BigInt(2) ** BigInt(64)
+// Give up after this many SHA-256 blocks; each candidate is rejected with
+// probability < 1/2, so reaching this is a 1-in-2^4096 event
+const MAX_SEED_BLOCKS = 1024
+
+/**
+ * Map a seed to a uniformly distributed index in [0, range)
+ *
+ * Rejection sampling over an expanded SHA-256 stream, so every index is
+ * exactly equally likely (no modulo bias). Shared by every pick and verify path.
+ */
+export function uniformTicketIndex(seed: Uint8Array, range: number): number {
+  if (!Number.isSafeInteger(range) || range < 1) {
+    throw new Error(`Invalid ticket total: ${range}`)
+  }
+
+  const rangeBigInt = BigInt(range)
+  const limit = UINT64_RANGE - (UINT64_RANGE % rangeBigInt)
+
+  for (let counter = 0; counter < MAX_SEED_BLOCKS; counter++) {
+    const counterBytes = Buffer.alloc(4)
+    counterBytes.writeUInt32BE(counter)
+    const block = createHash('sha256').update(seed).update(counterBytes).digest()
+
+    for (let offset = 0; offset < block.length; offset += 8) {
+      const candidate = block.readBigUInt64BE(offset)
+      if (candidate < limit) {
+        return Number(candidate % rangeBigInt)
+      }
+    }
+  }
+
+  throw new Error('Seed stream exhausted without an unbiased sample')
+}
+
+/**
+ * Map a seed to a winning ticket number in [1, totalTickets]
+ */
+export function winningTicketFromSeed(seed: Uint8Array, totalTickets: number): number {
+  return uniformTicketIndex(seed, totalTickets) + 1
+}
+
+/**
+ * Find the entry holding a given ticket number
+ * Entries must already be in their published (sorted) order
+ */
+function findTicketHolder(entries: LotteryEntry[], winningTicket: number): LotteryEntry | null {
   let ticketCount = 0
-  for (const entry of snapshot.entries) {
+  for (const entry of entries) {
     ticketCount += entry.tickets
-    if (ticketCount >= winningTicket) {
-      return {
-        valid: entry.wallet === claimedWinner,
-        calculatedWinner: entry.wallet,
+    if (ticketCount >= winningTicket) return entry
+  }
+  return null
+}
+
+// =============================================================================
+// MERKLE INCLUSION PROOFS
+// =============================================================================
+//
+// Lets a holder confirm they were counted without downloading every entry.
+//
+// Leaves, in snapshot order (sorted by wallet):
+//   leaf = SHA-256(0x00 || canonicalJSON({ wallet, amount, tickets, firstTicket, lastTicket }))
+// where [firstTicket, lastTicket] is the entry's 1-based cumulative ticket range.
+// Parents:
+//   node = SHA-256(0x01 || left || right)
+// A node without a sibling is carried up to the next level unchanged.
+
+export interface MerkleLeaf {
+  wallet: string
+  amount: string
+  tickets: number
+  firstTicket: number
+  lastTicket: number
+}
+
+export interface MerkleProof {
+  leaf: MerkleLeaf
+  index: number
+  // Sibling hashes (hex) from the leaf up to the root
+  siblings: Array<{ hash: string; position: 'left' | 'right' }>
+}
+
+const MERKLE_LEAF_PREFIX = Buffer.from([0x00])
+const MERKLE_NODE_PREFIX = Buffer.from([0x01])
+
+/**
+ * Build Merkle leaves with cumulative ticket ranges from ordered entries
+ */
+export function buildMerkleLeaves(entries: LotteryEntry[]): MerkleLeaf[] {
+  let ticketCount = 0
+  return entries.map(entry => {
+    const firstTicket = ticketCount + 1
+    ticketCount += entry.tickets
+    return {
+      wallet: entry.wallet,
+      amount: entry.amount,
+      tickets: entry.tickets,
+      firstTicket,
+      lastTicket: ticketCount,
+    }
+  })
+}
+
+export function hashMerkleLeaf(leaf: MerkleLeaf): Buffer {
+  return createHash('sha256').update(MERKLE_LEAF_PREFIX).update(canonicalJSON(leaf)).digest()
+}
+
+function hashMerkleNode(left: Buffer, right: Buffer): Buffer {
+  return createHash('sha256').update(MERKLE_NODE_PREFIX).update(left).update(right).digest()
+}
+
+/**
+ * All tree levels, leaves first, root level last
+ */
+function buildMerkleLevels(entries: LotteryEntry[]): Buffer[][] {
+  const levels: Buffer[][] = [buildMerkleLeaves(entries).map(hashMerkleLeaf)]
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1]
+    const next: Buffer[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashMerkleNode(level[i], level[i + 1]) : level[i])
+    }
+    levels.push(next)
+  }
+
+  return levels
+}
+
+/**
+ * Merkle root (hex) over ordered entries
+ * An empty list has the root SHA-256 of the empty string
+ */
+export function buildMerkleRoot(entries: LotteryEntry[]): string {
+  if (entries.length === 0) {
+    return createHash('sha256').digest('hex')
+  }
+  const levels = buildMerkleLevels(entries)
+  return levels[levels.length - 1][0].toString('hex')
+}
+
+/**
+ * Build an inclusion proof for a wallet, or null if it is not in the entries
+ */
+export function buildMerkleProof(entries: LotteryEntry[], wallet: string): MerkleProof | null {
+  const index = entries.findIndex(e => e.wallet === wallet)
+  if (index === -1) return null
+
+  const levels = buildMerkleLevels(entries)
+  const siblings: MerkleProof['siblings'] = []
+
+  let position = index
+  for (const level of levels.slice(0, -1)) {
+    const siblingIndex = position % 2 === 0 ? position + 1 : position - 1
+    if (siblingIndex < level.length) {
+      siblings.push({
+        hash: level[siblingIndex].toString('hex'),
+        position: siblingIndex < position ? 'left' : 'right',
+      })
+    }
+    position = Math.floor(position / 2)
+  }
+
+  return {
+    leaf: buildMerkleLeaves(entries)[index],
+    index,
+    siblings,
+  }
+}
+
+/**
+ * Check an inclusion proof against a published Merkle root
+ * Needs nothing but the proof and the root - no snapshot required
+ */
+export function verifyMerkleProof(proof: MerkleProof, merkleRoot: string): boolean {
+  let hash = hashMerkleLeaf(proof.leaf)
+
+  for (const sibling of proof.siblings) {
+    const siblingHash = Buffer.from(sibling.hash, 'hex')
+    hash = sibling.position === 'left'
+      ? hashMerkleNode(siblingHash, hash)
+      : hashMerkleNode(hash, siblingHash)
+  }
+
+  return hash.toString('hex') === merkleRoot.toLowerCase()
+}
+
+// =============================================================================
+// MULTIPLE WINNERS AND PRIZE TIERS
+// =============================================================================
+//
+// Draw i (0-based, across all tiers in order) uses its own seed:
+//   seed[0] = decodeBlockHash(blockHash)
+//   seed[i] = SHA-256("BAGSLOTTO-DRAW" || seed[0] || uint32BE(i))
+// Each seed picks a ticket from the entries still in the pool, exactly like
+// a single draw. After each pick the winner is removed from the pool:
+// - 'wallet': the winner's whole entry (one prize per wallet)
+// - 'ticket': only the winning ticket (a wallet can win again)
+// So the first winner is always the same as pickWinnerVerifiable's.
+
+export interface PrizeTier {
+  label: string
+  count: number
+  prize?: string
+}
+
+export type RemovalMode = 'wallet' | 'ticket'
+
+export interface TierWinner {
+  // 1-based position across all tiers
+  rank: number
+  tier: string
+  prize?: string
+  wallet: string
+  winningTicket: number
+  // Tickets in the pool when this winner was drawn
+  poolTickets: number
+}
+
+export interface MultiWinnerResult {
+  winners: TierWinner[]
+  removal: RemovalMode
+  totalTickets: number
+  totalEligible: number
+  timestamp: number
+  blockHash: string
+  blockSlot: number
+}
+
+const DRAW_SEED_DOMAIN = Buffer.from('BAGSLOTTO-DRAW')
+
+/**
+ * Seed for the i-th draw of a multi-winner drawing
+ */
+export function drawSeed(baseSeed: Uint8Array, index: number): Uint8Array {
+  if (index === 0) return baseSeed
+
+  const indexBytes = Buffer.alloc(4)
+  indexBytes.writeUInt32BE(index)
+  return createHash('sha256').update(DRAW_SEED_DOMAIN).update(baseSeed).update(indexBytes).digest()
+}
+
+/**
+ * Draw winners for every tier from ordered entries (shared by pick and verify)
+ * Stops early if the pool runs out
+ */
+function drawTierWinners(
+  entries: LotteryEntry[],
+  seed: Uint8Array,
+  tiers: PrizeTier[],
+  removal: RemovalMode
+): TierWinner[] {
+  // Copy so removing tickets never touches the caller's entries
+  const pool = entries.map(e => ({ ...e }))
+  const winners: TierWinner[] = []
+
+  for (const tier of tiers) {
+    for (let n = 0; n < tier.count; n++) {
+      const poolTickets = pool.reduce((sum, e) => sum + e.tickets, 0)
+      if (poolTickets === 0) return winners
+
+      const winningTicket = winningTicketFromSeed(drawSeed(seed, winners.length), poolTickets)
+      const winner = findTicketHolder(pool, winningTicket) as LotteryEntry
+
+      winners.push({
+        rank: winners.length + 1,
+        tier: tier.label,
+        prize: tier.prize,
+        wallet: winner.wallet,
         winningTicket,
+        poolTickets,
+      })
+
+      if (removal === 'wallet') {
+        pool.splice(pool.indexOf(winner), 1)
+      } else {
+        winner.tickets -= 1
+        if (winner.tickets === 0) pool.splice(pool.indexOf(winner), 1)
       }
     }
   }
 
-  return { valid: false, calculatedWinner: '', winningTicket }
+  return winners
+}
+
+/**
+ * Pick an ordered list of winners for the given prize tiers
+ * e.g. [{ label: 'Grand', count: 1 }, { label: 'Runner-up', count: 5 }]
+ */
+export function pickWinnersVerifiable(
+  entries: LotteryEntry[],
+  blockHash: BlockHashInput,
+  blockSlot: number,
+  tiers: PrizeTier[],
+  removal: RemovalMode = 'wallet'
+): MultiWinnerResult | null {
+  // Filter to only eligible entries
+  const eligible = entries.filter(e => e.eligible && e.tickets > 0)
+
+  if (eligible.length === 0) {
+    console.error('[lottery] No eligible entries!')
+    return null
+  }
+
+  // Sort entries deterministically by wallet address for reproducibility
+  eligible.sort((a, b) => compareWallets(a.wallet, b.wallet))
+
+  const seed = decodeBlockHash(blockHash)
+
+  return {
+    winners: drawTierWinners(eligible, seed, tiers, removal),
+    removal,
+    totalTickets: eligible.reduce((sum, e) => sum + e.tickets, 0),
+    totalEligible: eligible.length,
+    timestamp: Date.now(),
+    blockHash: encodeBase58(seed),
+    blockSlot,
+  }
+}
+
+/**
+ * Verify a full list of claimed winners against a snapshot and block hash
+ */
+export function verifyWinners(
+  snapshot: LotterySnapshot,
+  blockHash: BlockHashInput,
+  tiers: PrizeTier[],
+  claimedWinners: string[],
+  removal: RemovalMode = 'wallet'
+): { valid: boolean; calculatedWinners: TierWinner[]; mismatches: number[] } {
+  const seed = decodeBlockHash(blockHash)
+  const calculatedWinners = drawTierWinners(snapshot.entries, seed, tiers, removal)
+
+  const mismatches: number[] = []
+  const length = Math.max(calculatedWinners.length, claimedWinners.length)
+  for (let i = 0; i < length; i++) {
+    if (calculatedWinners[i]?.wallet !== claimedWinners[i]) mismatches.push(i + 1)
+  }
+
+  return { valid: mismatches.length === 0, calculatedWinners, mismatches }
+}
+
+/**
+ * Check prize tiers are usable, returning an error message or null
+ */
+export function validatePrizeTiers(tiers: unknown): string | null {
+  if (!Array.isArray(tiers) || tiers.length === 0) return 'prizeTiers must be a non-empty list'
+  for (const tier of tiers) {
+    if (typeof tier?.label !== 'string' || !tier.label) return 'every prize tier needs a label'
+    if (!Number.isSafeInteger(tier.count) || tier.count < 1) return 'prize tier count must be a positive integer'
+  }
+  return null
 }
 
 /**
@@ -245,15 +840,23 @@ export function formatNumber(num: number): string {
   return num.toLocaleString()
 }
 
+/**
+ * Format a raw base-unit amount as whole tokens with commas (fraction dropped)
+ */
+export function formatTokenAmount(amount: string, decimals: number): string {
+  const whole = BigInt(amount) / BigInt(10) ** BigInt(decimals)
+  return whole.toLocaleString('en-US')
+}
+
 /**
  * Export eligible wallets as CSV
  */
 export function exportToCSV(entries: LotteryEntry[]): string {
   const eligible = entries.filter(e => e.eligible)
-  const lines = ['wallet,balance,tickets']
+  const lines = ['wallet,amount,tickets']
 
   for (const entry of eligible) {
-    lines.push(`${entry.wallet},${entry.balance},${entry.tickets}`)
+    lines.push(`${entry.wallet},${entry.amount},${entry.tickets}`)
   }
 
   return lines.join('\n')
@@ -0,0 +1,106 @@
+/**
+ * Fixture-backed holder source
+ * Replays holders, metadata and wallet histories from a JSON file, so the
+ * pipeline (sell checks, clusters, snapshots) runs without any API.
+ *
+ * Fixture format:
+ * {
+ *   "metadata": { "symbol": "BAGS", "name": "Bags", "decimals": 6 },
+ *   "slot": 250000000,
+ *   "mintCreatedAt": 1700000000,
+ *   "holders": [{ "owner": "...", "amount": "25000000000" }],
+ *   "histories": { "<wallet>": [<Helius-style parsed transactions>] }
+ * }
+ */
+
+import { promises as fs } from 'fs'
+import type { ParsedTransaction } from './helius'
+import type { HistoryPage, HolderFetch, HolderPageHandler, HolderSource, TokenHolder, TokenMetadata } from './sources'
+
+// Same page sizes as the Helius APIs
+const HOLDER_PAGE_SIZE = 1000
+const HISTORY_PAGE_SIZE = 100
+
+export interface MockFixture {
+  metadata: TokenMetadata
+  slot?: number
+  mintCreatedAt?: number
+  holders: TokenHolder[]
+  // Parsed transactions per wallet, in any order
+  histories?: Record<string, ParsedTransaction[]>
+}
+
+/**
+ * One page of a fixture wallet's history, newest first, stopping at `until`
+ */
+function historyPage(fixture: MockFixture, wallet: string, before?: string, until?: string): HistoryPage {
+  let all = [...fixture.histories?.[wallet] ?? []].sort((a, b) => b.timestamp - a.timestamp)
+
+  const end = until ? all.findIndex(tx => tx.signature === until) : -1
+  if (end >= 0) all = all.slice(0, end)
+
+  const start = before ? all.findIndex(tx => tx.signature === before) + 1 : 0
+  const transactions = all.slice(start, start + HISTORY_PAGE_SIZE)
+  const more = start + HISTORY_PAGE_SIZE < all.length
+
+  return { transactions, nextBefore: more ? transactions[transactions.length - 1].signature : undefined }
+}
+
+/**
+ * Pass the fixture's holders to onPage, from the given offset
+ */
+async function streamHolders(fixture: MockFixture, onPage: HolderPageHandler, resumeFrom?: string): Promise<HolderFetch> {
+  let pages = 0
+  for (let offset = Number(resumeFrom ?? 0); offset < fixture.holders.length; offset += HOLDER_PAGE_SIZE) {
+    const next = offset + HOLDER_PAGE_SIZE
+    await onPage(fixture.holders.slice(offset, next), next < fixture.holders.length ? String(next) : undefined)
+    pages++
+  }
+
+  return {
+    total: fixture.holders.length,
+    report: { complete: true, pages, resumed: resumeFrom !== undefined },
+    slot: fixture.slot ?? 0,
+    decimals: fixture.metadata.decimals,
+  }
+}
+
+/**
+ * Source that serves a fixture already in memory
+ */
+export function mockSource(fixture: MockFixture): HolderSource {
+  return {
+    name: 'mock',
+    pinsToSlot: true,
+    fetchHolders: (tokenMint, onPage, options = {}) => streamHolders(fixture, onPage, options.resumeFrom),
+    fetchMetadata: async () => fixture.metadata,
+    fetchHistory: async (wallet, before, until) => historyPage(fixture, wallet, before, until),
+    getMintCreationTime: async () => fixture.mintCreatedAt ?? null,
+  }
+}
+
+/**
+ * Source that loads its fixture from a file on first use
+ */
+export function mockSourceFromFile(file: string): HolderSource {
+  let loaded: Promise<HolderSource> | null = null
+  const source = () => {
+    loaded ??= fs.readFile(file, 'utf8').then(raw => mockSource(JSON.parse(raw)))
+    return loaded
+  }
+
+  return {
+    name: 'mock',
+    pinsToSlot: true,
+    fetchHolders: async (tokenMint, onPage, options) => (await source()).fetchHolders(tokenMint, onPage, options),
+    fetchMetadata: async tokenMint => (await source()).fetchMetadata(tokenMint),
+    fetchHistory: async (wallet, before, until) => {
+      const { fetchHistory } = await source()
+      return (fetchHistory as NonNullable<HolderSource['fetchHistory']>)(wallet, before, until)
+    },
+    getMintCreationTime: async tokenMint => {
+      const { getMintCreationTime } = await source()
+      return getMintCreationTime ? getMintCreationTime(tokenMint) : null
+    },
+  }
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+import { createSnapshot, pickWinnerVerifiable, verifyResult } from './lottery'
+import { mockSourceFromFile } from './mock-source'
+import type { TokenAnalysis } from './pipeline'
+import { DEFAULT_RULES } from './rules'
+
+// Wallets in fixtures/bags.json
+const TOKEN_MINT = '3hYAvLUn8rPdSmJkQDNC8GRhdK4add1H44rHivPDBAGS'
+// Three token accounts (750,000 tokens), moved 50,000 to LINKED
+const MULTI = 'DTwhSEt36fnJjZKP4w5ECtx4JZk3gqgNqF57YzG3L5Si'
+// Declared linked to MULTI
+const LINKED = 'C5QD9y7k3W4DHtuk6iDPRcKDibkbvh42zUdwhdfCJ7ke'
+// Sold 100,000 tokens on a DEX
+const SELLER = '8VTuQs719swZzo8qeadr3AYPKZwF18FqVRyLEA67TJF8'
+const PLAIN = 'AdNBVjTydNiU9z3g88nH8gLzrXz8dYvETWi22uZasx96'
+// Below the minimum balance
+const SMALL = '8FWv4fSoxbWnLvEi8rBjSNoQfRH8daExPBweNPXifW26'
+// Off-curve (program-derived) address
+const VAULT = '9E4scTPpTThuWULBKYX8TSo2kVBAZbN46w31eNMh7ykx'
+
+const BLOCK_HASH = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'
+
+describe('analyzeToken to a verified draw', () => {
+  // The store reads BAGSLOTTO_DATA_DIR on load, so modules are imported
+  // once it points at a scratch directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'bagslotto-test-'))
+  let analysis: TokenAnalysis
+
+  before(async () => {
+    process.env.BAGSLOTTO_DATA_DIR = dataDir
+    const { analyzeToken } = await import('./pipeline')
+    const { saveLinkedWalletGroup } = await import('./linked-wallets')
+
+    await saveLinkedWalletGroup([MULTI, LINKED])
+    const source = mockSourceFromFile(join(__dirname, '..', 'fixtures', 'bags.json'))
+    const result = await analyzeToken(TOKEN_MINT, [source], {
+      checkSells: true,
+      pinToSlot: true,
+      checkClusters: false,
+      rules: DEFAULT_RULES,
+    })
+    assert.ok(result.ok, result.ok ? undefined : result.error)
+    analysis = result.analysis
+  })
+
+  after(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  const entry = (wallet: string) => analysis.entries.find(e => e.wallet === wallet)
+
+  it('sums every token account of a wallet', () => {
+    assert.equal(entry(MULTI)?.amount, '750000000000')
+    assert.equal(entry(MULTI)?.tickets, 75)
+    assert.equal(analysis.stats.processedHolders, 8)
+    assert.equal(analysis.stats.totalHolders, 6)
+    assert.equal(analysis.slot, 250000000)
+    assert.ok(analysis.completeness.complete)
+  })
+
+  it('keeps wallets that moved tokens to a linked wallet', () => {
+    assert.equal(entry(MULTI)?.eligible, true)
+    assert.equal(entry(LINKED)?.eligible, true)
+    assert.equal(entry(PLAIN)?.eligible, true)
+  })
+
+  it('disqualifies a sale', () => {
+    assert.equal(entry(SELLER)?.eligible, false)
+    assert.equal(entry(SELLER)?.reason?.code, 'dex_swap')
+  })
+
+  it('leaves out excluded and small holders', () => {
+    assert.deepEqual(analysis.exclusions.map(e => [e.address, e.reason]), [[VAULT, 'off_curve']])
+    assert.equal(entry(VAULT), undefined)
+    assert.equal(entry(SMALL), undefined)
+    assert.equal(analysis.stats.totalTickets, 75 + 12 + 5)
+  })
+
+  it('draws a winner anyone can verify from the snapshot', () => {
+    const { token, rules, slot, exclusions, asOf } = analysis
+    const snapshot = createSnapshot(analysis.entries, token.mint, token.decimals, rules, slot, exclusions, asOf)
+    assert.deepEqual(snapshot.entries.map(e => e.wallet), [PLAIN, LINKED, MULTI])
+    assert.equal(snapshot.totalTickets, 92)
+    assert.equal(snapshot.asOf, asOf)
+
+    const result = pickWinnerVerifiable(snapshot.entries, BLOCK_HASH, 250000150)
+    assert.ok(result)
+    assert.deepEqual(verifyResult(snapshot, BLOCK_HASH, result.winner.wallet), {
+      valid: true,
+      calculatedWinner: result.winner.wallet,
+      winningTicket: result.winningTicket,
+    })
+
+    const other = snapshot.entries.find(e => e.wallet !== result.winner.wallet)
+    assert.ok(other)
+    assert.equal(verifyResult(snapshot, BLOCK_HASH, other.wallet).valid, false)
+  })
+})
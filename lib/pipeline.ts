@@ -0,0 +1,361 @@
+/**
+ * Token analysis pipeline
+ * Fetches token info and holders, applies exclusions, checks for sells,
+ * builds lottery entries and flags wallet clusters. Shared by the lottery,
+ * snapshot and draw routes. All outside data comes from HolderSources
+ * (lib/sources.ts), tried in order.
+ */
+
+import { randomUUID } from 'crypto'
+import { batchCheckSells } from './helius'
+import { buildClassifierConfig } from './classifier'
+import {
+  applyClusters,
+  clusterCheckEnabled,
+  detectClusters,
+  listClusterReviews,
+  saveFlaggedClusters,
+  WalletCluster,
+} from './clusters'
+import { AppliedExclusion, detectExclusions, ManualExclusion } from './exclusions'
+import {
+  aggregateHolderFetch,
+  appendHolderPage,
+  discardHolderFetch,
+  finishHolderFetch,
+  getResumableFetch,
+  releaseHolderFetch,
+  startHolderFetch,
+  StoredHolderFetch,
+} from './holder-fetches'
+import { listLinkedWalletGroups } from './linked-wallets'
+import {
+  buildLotteryEntries,
+  calculateTickets,
+  Eligibility,
+  LotteryEntry,
+} from './lottery'
+import { DEFAULT_RULES, LotteryRules, validateRules } from './rules'
+import { FetchReport, HolderFetch, HolderSource, TokenMetadata } from './sources'
+
+export interface AnalysisOptions {
+  // Run the "never sold" check (one history lookup per wallet)
+  checkSells?: boolean
+  // Read all balances at one recorded slot (required for snapshots)
+  pinToSlot?: boolean
+  // Continue a holder fetch that stopped early from its saved cursor
+  resume?: boolean
+  // Owner of the holder fetches this analysis writes (defaults to a new
+  // id) - a later analysis with the same owner can resume them at once
+  owner?: string
+  rules?: LotteryRules
+  // A campaign's manual exclude/allow entries (see lib/exclusions)
+  manualExclusions?: ManualExclusion[]
+  // Flag wallet clusters (always on when rules.clusterCap is set)
+  checkClusters?: boolean
+  // Called as holder pages arrive ('holders', total still unknown) and
+  // wallets are checked ('sell-check')
+  onProgress?: (stage: string, done: number, total: number | null) => void
+}
+
+/**
+ * Whether the sell check runs by default - set SELL_CHECK=off to skip it
+ */
+export function sellCheckEnabled(): boolean {
+  return process.env.SELL_CHECK !== 'off'
+}
+
+/**
+ * Rules from LOTTERY_RULES (JSON, merged over the defaults), or the defaults
+ */
+export function configuredRules(): LotteryRules {
+  if (!process.env.LOTTERY_RULES) return DEFAULT_RULES
+
+  const rules: LotteryRules = { ...DEFAULT_RULES, ...JSON.parse(process.env.LOTTERY_RULES) }
+  const error = validateRules(rules)
+  if (error) {
+    throw new Error(`Invalid LOTTERY_RULES: ${error}`)
+  }
+  return rules
+}
+
+export interface TokenAnalysis {
+  token: {
+    mint: string
+    symbol: string
+    name: string
+    decimals: number
+  }
+  stats: {
+    // Wallets with a balance
+    totalHolders: number
+    // Holders (token accounts) read from the source, and how many it says
+    // there are - null when it doesn't say. They match when complete.
+    processedHolders: number
+    reportedHolders: number | null
+    holdersWithMinBalance: number
+    excluded: number
+    clusters: number
+    eligibleHolders: number
+    disqualified: number
+    totalTickets: number
+    source: string
+    sellCheck: boolean
+  }
+  entries: LotteryEntry[]
+  rules: LotteryRules
+  // Holders left out as LPs, programs or by a manual entry
+  exclusions: AppliedExclusion[]
+  // Wallets that look like one holder
+  clusters: WalletCluster[]
+  // Slot the balances were read at, when pinned
+  slot?: number
+  // When the balances were read (unix seconds) - holding bonuses count up to here
+  asOf: number
+  // Whether every holder page was fetched
+  completeness: FetchReport
+}
+
+export type AnalysisResult =
+  | { ok: true; analysis: TokenAnalysis }
+  | { ok: false; error: string; status: number }
+
+/**
+ * Run the full analysis for a token mint
+ */
+export async function analyzeToken(
+  tokenMint: string,
+  sources: HolderSource[],
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const { checkSells = sellCheckEnabled(), pinToSlot = false, resume, rules = configuredRules(), onProgress } = options
+  const owner = options.owner ?? randomUUID()
+  const checkClusters = (options.checkClusters ?? clusterCheckEnabled()) || !!rules.clusterCap
+
+  if (sources.length === 0) {
+    return { ok: false, error: 'No holder source configured (set HELIUS_API_KEY or SOLANA_RPC_URL)', status: 500 }
+  }
+
+  // Get token info from the first source that has it
+  let tokenInfo: TokenMetadata | null = null
+
+  for (const source of sources) {
+    tokenInfo = await source.fetchMetadata(tokenMint)
+    if (tokenInfo) break
+  }
+
+  if (!tokenInfo) {
+    return { ok: false, error: 'Could not fetch token info', status: 400 }
+  }
+
+  // Fetch all holders from the first source that returns a complete list,
+  // falling back to the longest partial one. Snapshots need every balance
+  // read at one slot, so only sources that can pin count.
+  const holderSources = pinToSlot ? sources.filter(s => s.pinsToSlot) : sources
+  if (holderSources.length === 0) {
+    return { ok: false, error: 'No configured holder source can read balances at one slot', status: 500 }
+  }
+
+  console.log(`[lottery] Fetching holders for ${tokenInfo.symbol}...`)
+
+  // Pages are streamed to disk (lib/holder-fetches.ts), so any number of
+  // holders fits
+  type Fetched = { source: HolderSource; fetched: HolderFetch; stored: StoredHolderFetch }
+  let chosen: Fetched | null = null
+  let partial: Fetched | null = null
+  // Every fetch started or resumed here is owned until released
+  const owned: StoredHolderFetch[] = []
+
+  for (const source of holderSources) {
+    // A slot-pinned read starts over - a partial paged fetch isn't at one slot
+    const resumable = resume && !pinToSlot ? await getResumableFetch(source.name, tokenMint, owner) : null
+    const stored = resumable ?? await startHolderFetch(source.name, tokenMint, pinToSlot, owner)
+    owned.push(stored)
+
+    try {
+      const fetched = await source.fetchHolders(
+        tokenMint,
+        async (holders, cursor) => {
+          await appendHolderPage(stored, holders, cursor)
+          onProgress?.('holders', stored.accounts, null)
+        },
+        { pinToSlot, resumeFrom: resumable?.cursor }
+      )
+      await finishHolderFetch(stored, fetched.report)
+
+      if (!fetched.report.complete) {
+        console.log(`[lottery] ${source.name} stopped early (${fetched.report.error}), trying the next source...`)
+        if (!partial || stored.accounts > partial.stored.accounts) partial = { source, fetched, stored }
+        continue
+      }
+      if (stored.accounts === 0) continue
+
+      chosen = { source, fetched, stored }
+      break
+    } catch (error) {
+      // e.g. Birdeye 404 due to tier - fall back to the next source
+      const message = error instanceof Error ? error.message : String(error)
+      await finishHolderFetch(stored, { complete: false, pages: 0, error: message })
+      console.log(`[lottery] ${source.name} failed (${message}), trying the next source...`)
+    }
+  }
+
+  if (!chosen && partial && partial.stored.accounts > 0) {
+    console.log(`[lottery] WARNING: using an incomplete holder list from ${partial.source.name} (${partial.fetched.report.error})`)
+    chosen = partial
+  }
+
+  // Only the chosen fetch is read from here on
+  for (const stored of owned) {
+    if (stored !== chosen?.stored) await releaseHolderFetch(stored)
+  }
+
+  if (!chosen) {
+    return {
+      ok: false,
+      error: partial ? `Holder fetch failed: ${partial.fetched.report.error}` : 'No holders found',
+      status: partial ? 502 : 400,
+    }
+  }
+
+  const { fetched, stored } = chosen
+  const asOf = Math.floor(Date.now() / 1000)
+  const usedSource = chosen.source.name
+  const slot = fetched.slot
+  const completeness = fetched.report
+  // The chain is the source of truth for decimals
+  const decimals = fetched.decimals ?? tokenInfo.decimals
+
+  console.log(`[lottery] Fetched ${stored.accounts} token accounts via ${usedSource}${slot ? ` at slot ${slot}` : ''}`)
+
+  // One row per wallet, summing all of its token accounts, keeping only
+  // wallets that earn a ticket
+  const { wallets, holders: ticketHolders } = await aggregateHolderFetch(
+    stored,
+    amount => calculateTickets(amount, decimals, rules) >= 1
+  )
+  console.log(`[lottery] ${wallets} unique wallets, ${ticketHolders.length} with at least one ticket`)
+
+  // A complete fetch isn't needed again; a partial one is kept to resume
+  if (completeness.complete) await discardHolderFetch(stored)
+  else await releaseHolderFetch(stored)
+
+  // Filter out LPs, programs and manually excluded wallets
+  const exclusions = await detectExclusions(ticketHolders, {
+    rpcUrl: sources.find(s => s.rpcUrl)?.rpcUrl,
+    manual: options.manualExclusions,
+  })
+  const excluded = new Set(exclusions.map(e => e.address))
+  const eligibleHolders = ticketHolders.filter(h => !excluded.has(h.owner))
+
+  console.log(`[lottery] ${eligibleHolders.length} holders with at least one ticket (${exclusions.length} excluded)`)
+
+  // Only wallets that have never sold are eligible. The same history scan
+  // finds each wallet's first acquisition and funding links, so it also
+  // runs when only the holding bonus or the cluster cap needs it.
+  let eligibilityMap = new Map<string, Eligibility>()
+  const linkedGroups = await listLinkedWalletGroups()
+  const classifier = buildClassifierConfig(linkedGroups)
+
+  if (checkSells || rules.holdingBonus || rules.clusterCap) {
+    const historySource = sources.find(s => s.fetchHistory)
+    if (!historySource) {
+      return {
+        ok: false,
+        error: 'The sell check needs a source with transaction history (helius, rpc or mock) - set SELL_CHECK=off to skip it',
+        status: 500,
+      }
+    }
+
+    console.log(`[lottery] Checking ${eligibleHolders.length} wallets for sells via ${historySource.name}...`)
+    eligibilityMap = await batchCheckSells(
+      eligibleHolders.map(h => h.owner),
+      tokenMint,
+      historySource,
+      (checked, total) => {
+        if (checked % 100 === 0 || checked === total) {
+          console.log(`[lottery] Sell check: ${checked}/${total}`)
+        }
+        onProgress?.('sell-check', checked, total)
+      },
+      classifier
+    )
+
+    if (!checkSells) {
+      for (const [wallet, eligibility] of eligibilityMap) {
+        eligibilityMap.set(wallet, { eligible: true, firstAcquiredAt: eligibility.firstAcquiredAt, links: eligibility.links })
+      }
+    }
+  } else {
+    console.log(`[lottery] Sell check disabled - all holders with a ticket are eligible`)
+    for (const holder of eligibleHolders) {
+      eligibilityMap.set(holder.owner, { eligible: true })
+    }
+  }
+
+  // Build lottery entries
+  let entries = buildLotteryEntries(eligibleHolders, eligibilityMap, decimals, rules, asOf)
+
+  // Flag wallet clusters for review and, with rules.clusterCap, make each
+  // one share a single ticket cap
+  let clusters: WalletCluster[] = []
+
+  if (checkClusters) {
+    const reviews = await listClusterReviews()
+    const detected = detectClusters(eligibleHolders.map(h => h.owner), eligibilityMap, {
+      linkedGroups,
+      ignore: classifier.exchangeAddresses,
+    }).map(c => ({ ...c, review: reviews.get(c.id) }))
+
+    const applied = applyClusters(entries, detected, rules)
+    entries = applied.entries
+    clusters = applied.clusters
+    await saveFlaggedClusters(tokenMint, clusters)
+  }
+
+  // Stats
+  const eligibleEntries = entries.filter(e => e.eligible)
+  const totalTickets = eligibleEntries.reduce((sum, e) => sum + e.tickets, 0)
+
+  return {
+    ok: true,
+    analysis: {
+      token: {
+        mint: tokenMint,
+        symbol: tokenInfo.symbol,
+        name: tokenInfo.name,
+        decimals,
+      },
+      stats: {
+        totalHolders: wallets,
+        processedHolders: stored.accounts,
+        reportedHolders: fetched.total ?? (completeness.complete ? stored.accounts : null),
+        holdersWithMinBalance: eligibleHolders.length,
+        excluded: exclusions.length,
+        clusters: clusters.length,
+        eligibleHolders: eligibleEntries.length,
+        disqualified: entries.filter(e => !e.eligible).length,
+        totalTickets,
+        source: usedSource,
+        sellCheck: checkSells,
+      },
+      entries,
+      rules,
+      exclusions,
+      clusters,
+      slot,
+      asOf,
+      completeness,
+    },
+  }
+}
+
+/**
+ * Why an analysis can't be snapshotted or drawn from, or null if its
+ * holder list is complete
+ */
+export function incompleteFetchError(analysis: Pick<TokenAnalysis, 'stats' | 'completeness'>): string | null {
+  const { complete, error, cursor } = analysis.completeness
+  if (complete) return null
+  return `Holder list is incomplete (${analysis.stats.source}: ${error ?? 'stopped early'}${cursor ? `, stopped at ${cursor}` : ''}) - retry with resume: true`
+}
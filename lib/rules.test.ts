@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { clusterCappedTickets, DEFAULT_RULES, LotteryRules, ticketsForAmount, validateRules } from './rules'
+
+// Raw amount for whole tokens at 6 decimals
+const tokens = (n: number) => `${n}000000`
+
+describe('ticketsForAmount', () => {
+  const tickets = (amount: number, rules: Partial<LotteryRules> = {}, heldWeeks = 0) =>
+    ticketsForAmount(tokens(amount), 6, { ...DEFAULT_RULES, ...rules }, heldWeeks)
+
+  it('counts whole tickets from the minimum up', () => {
+    assert.equal(tickets(9_999), 0)
+    assert.equal(tickets(10_000), 1)
+    assert.equal(tickets(19_999), 1)
+    assert.equal(ticketsForAmount('10000000000', 6, DEFAULT_RULES), 1)
+    assert.equal(ticketsForAmount('9999999999', 6, DEFAULT_RULES), 0)
+  })
+
+  it('ignores tokens above maxTokens, then caps at maxTickets', () => {
+    assert.equal(tickets(50_000_000), 2_000)
+    assert.equal(tickets(50_000_000, { maxTokens: 100_000_000, maxTickets: 3_000 }), 3_000)
+    assert.equal(tickets(50_000_000, { maxTokens: 100_000_000, maxTickets: 10_000 }), 5_000)
+  })
+
+  it('takes the square root with sqrt weighting', () => {
+    assert.equal(tickets(1_000_000, { weighting: { type: 'sqrt' } }), 10)
+    assert.equal(tickets(990_000, { weighting: { type: 'sqrt' } }), 9)
+  })
+
+  it('fills tiered brackets in order', () => {
+    const weighting = { type: 'tiered' as const, tiers: [{ upToTokens: 1_000_000, tokensPerTicket: 10_000 }, { tokensPerTicket: 50_000 }] }
+    assert.equal(tickets(500_000, { weighting }), 50)
+    assert.equal(tickets(2_000_000, { weighting }), 100 + 20)
+  })
+
+  it('adds the holding bonus on top of the ticket cap', () => {
+    const holdingBonus = { percentPerWeek: 10, maxPercent: 50 }
+    assert.equal(tickets(100_000, { holdingBonus }, 3), 13)
+    assert.equal(tickets(100_000, { holdingBonus }, 10), 15)
+    assert.equal(tickets(50_000_000, { holdingBonus }, 10), 3_000)
+    assert.equal(tickets(100_000, {}, 10), 10)
+  })
+})
+
+describe('clusterCappedTickets', () => {
+  it('shares maxTickets in proportion once the cluster is over it', () => {
+    assert.equal(clusterCappedTickets(1_000, 1_500, DEFAULT_RULES), 1_000)
+    assert.equal(clusterCappedTickets(1_500, 3_000, DEFAULT_RULES), 1_000)
+    assert.equal(clusterCappedTickets(1, 3_000, DEFAULT_RULES), 0)
+  })
+})
+
+describe('validateRules', () => {
+  const error = (rules: object) => validateRules({ ...DEFAULT_RULES, ...rules } as LotteryRules)
+
+  it('accepts the defaults and every weighting', () => {
+    assert.equal(validateRules(DEFAULT_RULES), null)
+    assert.equal(error({ weighting: { type: 'sqrt' } }), null)
+    assert.equal(error({ weighting: { type: 'tiered', tiers: [{ upToTokens: 1, tokensPerTicket: 1 }, { tokensPerTicket: 2 }] } }), null)
+    assert.equal(error({ holdingBonus: { percentPerWeek: 5, maxPercent: 50 }, clusterCap: true }), null)
+  })
+
+  it('rejects unusable values', () => {
+    assert.equal(error({ tokensPerTicket: 0 }), 'tokensPerTicket must be a positive integer')
+    assert.equal(error({ maxTokens: 1.5 }), 'maxTokens must be a positive integer')
+    assert.equal(error({ maxTickets: '10' }), 'maxTickets must be a positive integer')
+    assert.equal(error({ minTokens: -1 }), 'minTokens must be a non-negative integer')
+    assert.equal(error({ weighting: { type: 'log' } }), 'weighting.type must be linear, sqrt or tiered')
+    assert.equal(error({ weighting: { type: 'tiered', tiers: [] } }), 'tiered weighting needs at least one tier')
+    assert.equal(error({ weighting: { type: 'tiered', tiers: [{ tokensPerTicket: 0 }] } }), 'tier tokensPerTicket must be a positive integer')
+    assert.equal(error({ holdingBonus: { percentPerWeek: 5, maxPercent: 0 } }), 'holdingBonus.maxPercent must be a positive integer')
+    assert.equal(error({ clusterCap: 'yes' }), 'clusterCap must be true or false')
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Ticket rules
+ *
+ * Everything that turns a token amount into tickets lives in one
+ * LotteryRules object. It is passed to calculateTickets/buildLotteryEntries,
+ * embedded in every snapshot (so verification uses the same rules) and
+ * rendered by the page.
+ *
+ * No Node-only imports here - the page imports this module too.
+ */
+
+export interface RuleTier {
+  // Tokens in this bracket, counted from the previous bracket's end
+  // (omit on the last tier for "everything above")
+  upToTokens?: number
+  tokensPerTicket: number
+}
+
+export type TicketWeighting =
+  // floor(tokens / tokensPerTicket)
+  | { type: 'linear' }
+  // floor(sqrt(tokens / tokensPerTicket)) - dampens whales
+  | { type: 'sqrt' }
+  // Marginal brackets, e.g. first 1M at 10k/ticket, the rest at 50k/ticket
+  | { type: 'tiered'; tiers: RuleTier[] }
+
+export interface HoldingBonus {
+  // Extra tickets per whole week held, in percent of the base tickets
+  percentPerWeek: number
+  // Bonus cap, in percent
+  maxPercent: number
+}
+
+export interface LotteryRules {
+  // Tokens per ticket (linear and sqrt weighting)
+  tokensPerTicket: number
+  // Wallets below this many tokens get no tickets
+  minTokens: number
+  // Tokens above this are ignored
+  maxTokens: number
+  // Hard cap on tickets per wallet
+  maxTickets: number
+  weighting: TicketWeighting
+  // Optional bonus for holding since long ago (off when absent)
+  holdingBonus?: HoldingBonus
+  // Make each flagged wallet cluster share one maxTickets cap (see lib/clusters.ts)
+  clusterCap?: boolean
+}
+
+export const DEFAULT_RULES: LotteryRules = {
+  tokensPerTicket: 10_000,
+  minTokens: 10_000,
+  maxTokens: 20_000_000,
+  maxTickets: 2_000,
+  weighting: { type: 'linear' },
+}
+
+/**
+ * Integer square root (floor)
+ */
+function isqrt(value: bigint): bigint {
+  if (value < BigInt(2)) return value
+  let x = value
+  let y = (x + BigInt(1)) / BigInt(2)
+  while (y < x) {
+    x = y
+    y = (x + value / x) / BigInt(2)
+  }
+  return x
+}
+
+/**
+ * Holding bonus in percent for a number of whole weeks held
+ */
+export function holdingBonusPercent(heldWeeks: number, rules: LotteryRules): number {
+  if (!rules.holdingBonus) return 0
+  const { percentPerWeek, maxPercent } = rules.holdingBonus
+  return Math.min(heldWeeks * percentPerWeek, maxPercent)
+}
+
+/**
+ * Calculate tickets for a raw base-unit amount under the given rules
+ * Integer math only, so exactly 10,000 tokens is always 1 ticket
+ *
+ * The holding bonus is applied last, on top of the maxTickets cap:
+ * tickets = floor(base * (100 + bonusPercent) / 100)
+ */
+export function ticketsForAmount(
+  amount: string | bigint,
+  decimals: number,
+  rules: LotteryRules,
+  heldWeeks: number = 0
+): number {
+  const unit = BigInt(10) ** BigInt(decimals)
+  const raw = BigInt(amount)
+
+  // Minimum holding
+  if (raw < BigInt(rules.minTokens) * unit) return 0
+
+  // Cap at max tokens
+  const maxRaw = BigInt(rules.maxTokens) * unit
+  const capped = raw < maxRaw ? raw : maxRaw
+
+  let tickets: bigint
+  const { weighting } = rules
+
+  if (weighting.type === 'tiered') {
+    tickets = BigInt(0)
+    let remaining = capped
+    for (const tier of weighting.tiers) {
+      if (remaining <= BigInt(0)) break
+      const bracket = tier.upToTokens === undefined ? remaining : BigInt(tier.upToTokens) * unit
+      const inBracket = remaining < bracket ? remaining : bracket
+      tickets += inBracket / (BigInt(tier.tokensPerTicket) * unit)
+      remaining -= inBracket
+    }
+  } else {
+    // Floor to whole tickets only
+    tickets = capped / (BigInt(rules.tokensPerTicket) * unit)
+    if (weighting.type === 'sqrt') tickets = isqrt(tickets)
+  }
+
+  // Cap at max tickets
+  const baseTickets = Math.min(Number(tickets), rules.maxTickets)
+
+  const bonusPercent = holdingBonusPercent(heldWeeks, rules)
+  return Math.floor((baseTickets * (100 + bonusPercent)) / 100)
+}
+
+/**
+ * Tickets for one member of a capped wallet cluster
+ * Members share maxTickets in proportion to their own tickets:
+ * floor(tickets * maxTickets / clusterTickets), where clusterTickets is the
+ * cluster's total before the cap
+ */
+export function clusterCappedTickets(tickets: number, clusterTickets: number, rules: LotteryRules): number {
+  if (clusterTickets <= rules.maxTickets) return tickets
+  return Math.floor((tickets * rules.maxTickets) / clusterTickets)
+}
+
+/**
+ * Check a rules object is usable, returning an error message or null
+ */
+export function validateRules(rules: LotteryRules): string | null {
+  const positive = (n: unknown) => typeof n === 'number' && Number.isSafeInteger(n) && n > 0
+
+  if (!positive(rules.tokensPerTicket)) return 'tokensPerTicket must be a positive integer'
+  if (!positive(rules.maxTokens)) return 'maxTokens must be a positive integer'
+  if (!positive(rules.maxTickets)) return 'maxTickets must be a positive integer'
+  if (!Number.isSafeInteger(rules.minTokens) || rules.minTokens < 0) return 'minTokens must be a non-negative integer'
+
+  const { weighting } = rules
+  if (weighting?.type === 'tiered') {
+    if (!Array.isArray(weighting.tiers) || weighting.tiers.length === 0) return 'tiered weighting needs at least one tier'
+    for (const tier of weighting.tiers) {
+      if (!positive(tier.tokensPerTicket)) return 'tier tokensPerTicket must be a positive integer'
+      if (tier.upToTokens !== undefined && !positive(tier.upToTokens)) return 'tier upToTokens must be a positive integer'
+    }
+  } else if (weighting?.type !== 'linear' && weighting?.type !== 'sqrt') {
+    return 'weighting.type must be linear, sqrt or tiered'
+  }
+
+  if (rules.holdingBonus) {
+    const { percentPerWeek, maxPercent } = rules.holdingBonus
+    if (!positive(percentPerWeek)) return 'holdingBonus.percentPerWeek must be a positive integer'
+    if (!positive(maxPercent)) return 'holdingBonus.maxPercent must be a positive integer'
+  }
+
+  if (rules.clusterCap !== undefined && typeof rules.clusterCap !== 'boolean') return 'clusterCap must be true or false'
+
+  return null
+}
@@ -0,0 +1,105 @@
+/**
+ * Persisted, hash-committed lottery snapshots
+ *
+ * Each snapshot is stored with the SHA-256 commitment over its canonical
+ * JSON form. The id is derived from the commitment, so a stored snapshot
+ * can never be silently replaced by a different one.
+ */
+
+import { LotterySnapshot, snapshotCommitment } from './lottery'
+import { listRecords, readRecord, writeRecord } from './store'
+
+const COLLECTION = 'snapshots'
+
+export interface StoredSnapshot {
+  id: string
+  commitment: string
+  createdAt: number
+  snapshot: LotterySnapshot
+}
+
+export interface SnapshotSummary {
+  id: string
+  commitment: string
+  createdAt: number
+  tokenMint: string
+  merkleRoot: string
+  slot?: number
+  totalTickets: number
+  totalEligible: number
+}
+
+/**
+ * Short id for a commitment (first 16 hex chars)
+ */
+export function snapshotId(commitment: string): string {
+  return commitment.slice(0, 16)
+}
+
+/**
+ * Save a snapshot and return its stored record
+ * Saving the same snapshot twice returns the existing record
+ */
+export async function saveSnapshot(snapshot: LotterySnapshot): Promise<StoredSnapshot> {
+  const commitment = snapshotCommitment(snapshot)
+  const id = snapshotId(commitment)
+
+  const existing = await readRecord<StoredSnapshot>(COLLECTION, id)
+  if (existing) {
+    if (existing.commitment !== commitment) {
+      throw new Error(`Snapshot id collision for ${id}`)
+    }
+    return existing
+  }
+
+  const record: StoredSnapshot = {
+    id,
+    commitment,
+    createdAt: Date.now(),
+    snapshot,
+  }
+
+  await writeRecord(COLLECTION, id, record)
+  console.log(`[snapshots] Saved ${id} (${snapshot.totalEligible} entries, ${snapshot.totalTickets} tickets)`)
+  return record
+}
+
+/**
+ * Load a snapshot, re-checking its commitment
+ */
+export async function getSnapshot(id: string): Promise<StoredSnapshot | null> {
+  const record = await readRecord<StoredSnapshot>(COLLECTION, id)
+  if (!record) return null
+
+  if (snapshotCommitment(record.snapshot) !== record.commitment) {
+    throw new Error(`Snapshot ${id} does not match its commitment`)
+  }
+
+  return record
+}
+
+/**
+ * List stored snapshots, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  const ids = await listRecords(COLLECTION)
+  const summaries: SnapshotSummary[] = []
+
+  for (const id of ids) {
+    const record = await readRecord<StoredSnapshot>(COLLECTION, id)
+    if (!record) continue
+
+    summaries.push({
+      id: record.id,
+      commitment: record.commitment,
+      createdAt: record.createdAt,
+      tokenMint: record.snapshot.tokenMint,
+      merkleRoot: record.snapshot.merkleRoot,
+      slot: record.snapshot.slot,
+      totalTickets: record.snapshot.totalTickets,
+      totalEligible: record.snapshot.totalEligible,
+    })
+  }
+
+  return summaries.sort((a, b) => b.createdAt - a.createdAt)
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { resetHttpClient } from './http'
+import { rpcSource } from './sources'
+
+const MINT = 'Mint1111111111111111111111111111111111111111'
+const realFetch = globalThis.fetch
+
+// A transaction moving `amount` base units of the mint from one owner to another
+function transfer(from: string, to: string, amount: number) {
+  const balance = (owner: string, value: number) => ({ mint: MINT, owner, uiTokenAmount: { amount: String(value), decimals: 0 } })
+  return {
+    blockTime: 200,
+    meta: { err: null, preTokenBalances: [balance(from, amount), balance(to, 0)], postTokenBalances: [balance(from, 0), balance(to, amount)] },
+    transaction: { message: { instructions: [] } },
+  }
+}
+
+const HISTORIES: Record<string, string[]> = { Alice: ['shared', 'a1'], Bob: ['shared'] }
+const TRANSACTIONS: Record<string, ReturnType<typeof transfer>> = {
+  shared: transfer('Alice', 'Bob', 500),
+  a1: transfer('Pool', 'Alice', 500),
+}
+
+describe('rpc source history', () => {
+  const fetched: string[] = []
+
+  before(() => {
+    globalThis.fetch = async (_url, init) => {
+      const { method, params } = JSON.parse(String(init?.body))
+      if (method === 'getSignaturesForAddress') {
+        return Response.json({ result: HISTORIES[params[0]].map(signature => ({ signature, err: null })) })
+      }
+      fetched.push(params[0])
+      return Response.json({ result: TRANSACTIONS[params[0]] })
+    }
+  })
+
+  after(() => {
+    globalThis.fetch = realFetch
+    resetHttpClient()
+  })
+
+  it('fetches a transaction shared by two wallets once', async () => {
+    const source = rpcSource('http://rpc.test')
+    const alice = await source.fetchHistory?.('Alice')
+    const bob = await source.fetchHistory?.('Bob')
+
+    assert.deepEqual(fetched, ['shared', 'a1'])
+    assert.deepEqual(bob?.transactions, [alice?.transactions[0]])
+    assert.deepEqual(bob?.transactions[0].tokenTransfers, [
+      { mint: MINT, fromUserAccount: 'Alice', toUserAccount: 'Bob', tokenAmount: 500 },
+    ])
+  })
+})
@@ -0,0 +1,552 @@
+/**
+ * Minimal Solana JSON-RPC client
+ * Used by the draw lifecycle to pick a target slot and read its block hash,
+ * to read holder balances pinned to a single slot, to look up which
+ * program owns a holder (see lib/exclusions), and to back the plain RPC
+ * holder source (see lib/sources)
+ */
+
+import { NativeTransfer, ParsedTransaction, TokenTransfer } from './helius'
+import { fetchWithRetry, Provider, RequestOptions } from './http'
+import { readJsonStream } from './json-stream'
+import { encodeBase58 } from './lottery'
+import type { HistoryPage, HolderPageHandler, TokenHolder, TokenMetadata } from './sources'
+
+export interface FinalizedBlock {
+  slot: number
+  blockHash: string
+}
+
+/**
+ * Helius RPC endpoint for an API key
+ */
+export function heliusRpcUrl(heliusApiKey: string): string {
+  return `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+}
+
+/**
+ * Helius endpoints share the Helius rate limit, anything else counts as plain RPC
+ */
+function rpcProvider(rpcUrl: string): Provider {
+  return rpcUrl.includes('helius-rpc.com') ? 'helius' : 'rpc'
+}
+
+async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[], options?: RequestOptions): Promise<T> {
+  const response = await fetchWithRetry(rpcProvider(rpcUrl), rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  }, options)
+
+  if (!response.ok) {
+    throw new Error(`RPC ${method} failed: ${response.status}`)
+  }
+
+  const data = await response.json()
+
+  if (data.error) {
+    throw new Error(`RPC ${method} error: ${data.error.message || JSON.stringify(data.error)}`)
+  }
+
+  return data.result as T
+}
+
+/**
+ * Get the current slot at the given commitment
+ */
+export async function getCurrentSlot(
+  rpcUrl: string,
+  commitment: 'processed' | 'confirmed' | 'finalized' = 'confirmed'
+): Promise<number> {
+  return rpcCall<number>(rpcUrl, 'getSlot', [{ commitment }])
+}
+
+// How far past the target slot to look for a produced block
+const SKIPPED_SLOT_WINDOW = 100
+
+/**
+ * Get the block hash for a target slot once it is finalized
+ *
+ * Slots can be skipped (no block produced). In that case the first
+ * finalized block AFTER the target slot is used, and its slot is returned.
+ * Returns null if no block at or after the target slot is finalized yet.
+ */
+export async function getFinalizedBlockHash(
+  rpcUrl: string,
+  targetSlot: number
+): Promise<FinalizedBlock | null> {
+  const finalizedSlot = await getCurrentSlot(rpcUrl, 'finalized')
+  if (finalizedSlot < targetSlot) return null
+
+  const endSlot = Math.min(targetSlot + SKIPPED_SLOT_WINDOW, finalizedSlot)
+  const blocks = await rpcCall<number[]>(rpcUrl, 'getBlocks', [
+    targetSlot,
+    endSlot,
+    { commitment: 'finalized' },
+  ])
+
+  if (blocks.length === 0) return null
+
+  const slot = blocks[0]
+  const block = await rpcCall<{ blockhash: string }>(rpcUrl, 'getBlock', [
+    slot,
+    {
+      commitment: 'finalized',
+      transactionDetails: 'none',
+      rewards: false,
+      maxSupportedTransactionVersion: 0,
+    },
+  ])
+
+  return { slot, blockHash: block.blockhash }
+}
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PcnkxUt7nP8j7Ks'
+
+// =============================================================================
+// SPL TOKEN LAYOUTS
+// =============================================================================
+//
+// Token and Token-2022 share the base layouts:
+//
+//   Mint (82 bytes)                 Account (165 bytes)
+//   0   mint_authority COption(36)  0   mint (32)
+//   36  supply u64                  32  owner (32)
+//   44  decimals u8                 64  amount u64
+//   45  is_initialized u8           72  delegate COption(36)
+//   46  freeze_authority (36)       108 state u8 (0 uninitialized, 1 initialized, 2 frozen)
+//                                   ...
+//
+// Token-2022 accounts with extensions are longer: byte 165 holds the account
+// type (1 mint, 2 account) and the extensions follow. Mints are padded to
+// 165 bytes before their account type, so no mint is mistaken for an account.
+
+const MINT_DECIMALS_OFFSET = 44
+const TOKEN_ACCOUNT_SIZE = 165
+const ACCOUNT_OWNER_OFFSET = 32
+const ACCOUNT_AMOUNT_OFFSET = 64
+const ACCOUNT_STATE_OFFSET = 108
+const ACCOUNT_TYPE_OFFSET = 165
+const ACCOUNT_TYPE_ACCOUNT = 2
+const ACCOUNT_STATE_UNINITIALIZED = 0
+const ACCOUNT_STATE_FROZEN = 2
+
+export interface TokenAccount {
+  mint: string
+  owner: string
+  // Raw base-unit amount as a decimal string
+  amount: string
+  frozen: boolean
+}
+
+/**
+ * Decode a Token or Token-2022 account, or null if the data isn't one
+ */
+export function decodeTokenAccount(data: Uint8Array): TokenAccount | null {
+  if (data.length < TOKEN_ACCOUNT_SIZE) return null
+  if (data.length > TOKEN_ACCOUNT_SIZE && data[ACCOUNT_TYPE_OFFSET] !== ACCOUNT_TYPE_ACCOUNT) return null
+
+  const state = data[ACCOUNT_STATE_OFFSET]
+  if (state === ACCOUNT_STATE_UNINITIALIZED) return null
+
+  let amount = BigInt(0)
+  for (let i = ACCOUNT_AMOUNT_OFFSET + 7; i >= ACCOUNT_AMOUNT_OFFSET; i--) {
+    amount = (amount << BigInt(8)) + BigInt(data[i])
+  }
+
+  return {
+    mint: encodeBase58(data.subarray(0, ACCOUNT_OWNER_OFFSET)),
+    owner: encodeBase58(data.subarray(ACCOUNT_OWNER_OFFSET, ACCOUNT_AMOUNT_OFFSET)),
+    amount: amount.toString(),
+    frozen: state === ACCOUNT_STATE_FROZEN,
+  }
+}
+
+export interface MintInfo {
+  // Token or Token-2022
+  programId: string
+  decimals: number
+}
+
+/**
+ * Get the token program that owns a mint and the mint's decimals
+ */
+export async function getMintInfo(rpcUrl: string, tokenMint: string): Promise<MintInfo> {
+  const result = await rpcCall<{ value: { owner: string; data: [string, string] } | null }>(rpcUrl, 'getAccountInfo', [
+    tokenMint,
+    { encoding: 'base64', dataSlice: { offset: MINT_DECIMALS_OFFSET, length: 1 } },
+  ])
+
+  const owner = result.value?.owner
+  if (owner !== TOKEN_PROGRAM_ID && owner !== TOKEN_2022_PROGRAM_ID) {
+    throw new Error(`${tokenMint} is not a token mint (owner: ${owner ?? 'none'})`)
+  }
+
+  const data = Buffer.from((result.value as { data: [string, string] }).data[0], 'base64')
+  return { programId: owner, decimals: data[0] }
+}
+
+// getMultipleAccounts takes at most 100 addresses per call
+const MULTIPLE_ACCOUNTS_LIMIT = 100
+
+/**
+ * Get the program that owns each address (null if the account doesn't exist)
+ */
+export async function getAccountOwners(
+  rpcUrl: string,
+  addresses: string[]
+): Promise<Map<string, string | null>> {
+  const owners = new Map<string, string | null>()
+
+  for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    const batch = addresses.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT)
+    const result = await rpcCall<{ value: Array<{ owner: string } | null> }>(rpcUrl, 'getMultipleAccounts', [
+      batch,
+      { encoding: 'base64', dataSlice: { offset: 0, length: 0 } },
+    ])
+
+    batch.forEach((address, j) => owners.set(address, result.value[j]?.owner ?? null))
+  }
+
+  return owners
+}
+
+export interface HoldersAtSlot {
+  // Token accounts passed to onPage
+  accounts: number
+  decimals: number
+  // Slot the balances were read at
+  slot: number
+}
+
+const GET_PROGRAM_ACCOUNTS_TIMEOUT_MS = 5 * 60 * 1000
+
+// Token accounts per page handed to onPage
+const PAGE_SIZE = 1000
+
+interface RawProgramAccount {
+  pubkey: string
+  account: { data: [string, string] }
+}
+
+/**
+ * Fetch every token account for a mint in ONE getProgramAccounts call
+ *
+ * All balances come from the same slot (returned as `slot`), so nobody can
+ * buy in while the snapshot is being taken. Pass minContextSlot to make
+ * sure the node has caught up to a slot chosen beforehand.
+ *
+ * Only standard RPC methods are used and accounts are decoded here, so this
+ * works against any endpoint, including a local solana-test-validator.
+ * Works for both Token and Token-2022 mints. The response is parsed as it
+ * arrives (lib/json-stream.ts) and handed to onPage in pages of PAGE_SIZE
+ * token accounts (a wallet can appear more than once), so memory stays
+ * bounded however many accounts the mint has.
+ */
+export async function fetchHoldersAtSlot(
+  rpcUrl: string,
+  tokenMint: string,
+  onPage: HolderPageHandler,
+  minContextSlot?: number
+): Promise<HoldersAtSlot> {
+  console.log(`[solana] Fetching token accounts for ${tokenMint}${minContextSlot ? ` at slot >= ${minContextSlot}` : ''}...`)
+
+  const { programId, decimals } = await getMintInfo(rpcUrl, tokenMint)
+
+  // Token-2022 accounts vary in size with their extensions, so only
+  // classic Token accounts can be filtered by exact size
+  const filters: unknown[] = [{ memcmp: { offset: 0, bytes: tokenMint } }]
+  if (programId === TOKEN_PROGRAM_ID) {
+    filters.unshift({ dataSize: TOKEN_ACCOUNT_SIZE })
+  }
+
+  const response = await fetchWithRetry(rpcProvider(rpcUrl), rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getProgramAccounts',
+      params: [
+        programId,
+        {
+          encoding: 'base64',
+          // Base layout plus the Token-2022 account type - extensions aren't needed
+          dataSlice: { offset: 0, length: ACCOUNT_TYPE_OFFSET + 1 },
+          commitment: 'confirmed',
+          withContext: true,
+          ...(minContextSlot ? { minContextSlot } : {}),
+          filters,
+        },
+      ],
+    }),
+  }, { timeoutMs: GET_PROGRAM_ACCOUNTS_TIMEOUT_MS })
+
+  if (!response.ok || !response.body) {
+    throw new Error(`RPC getProgramAccounts failed: ${response.status}`)
+  }
+
+  let page: TokenHolder[] = []
+  let accounts = 0
+
+  const flush = async () => {
+    accounts += page.length
+    const full = page
+    page = []
+    await onPage(full)
+  }
+
+  // Large mints return hundreds of MB - only the current page is kept
+  const rest = await readJsonStream(response.body, ['result', 'value'], async items => {
+    for (const item of items as RawProgramAccount[]) {
+      const decoded = decodeTokenAccount(Buffer.from(item.account.data[0], 'base64'))
+      // Skip anything that isn't a token account of this mint, and zero balances
+      if (decoded && decoded.mint === tokenMint && decoded.amount !== '0') {
+        page.push({ owner: decoded.owner, amount: decoded.amount })
+      }
+      if (page.length === PAGE_SIZE) await flush()
+    }
+  }) as { result?: { context: { slot: number } }; error?: { message?: string } }
+
+  if (rest.error || !rest.result) {
+    throw new Error(`RPC getProgramAccounts error: ${rest.error?.message || JSON.stringify(rest.error ?? rest)}`)
+  }
+  if (page.length > 0) await flush()
+
+  const result = rest.result
+  console.log(`[solana] ${accounts} token accounts at slot ${result.context.slot}`)
+  return { accounts, decimals, slot: result.context.slot }
+}
+
+// Give up looking for the mint's creation after this many signature pages
+const MAX_MINT_SIGNATURE_PAGES = 50
+
+/**
+ * Get the block time (unix seconds) of the mint's oldest transaction
+ * Returns null if it can't be determined (e.g. very busy mints)
+ */
+export async function getMintCreationTime(rpcUrl: string, tokenMint: string): Promise<number | null> {
+  let before: string | undefined
+
+  try {
+    for (let page = 0; page < MAX_MINT_SIGNATURE_PAGES; page++) {
+      const signatures = await rpcCall<Array<{ signature: string; blockTime: number | null }>>(
+        rpcUrl,
+        'getSignaturesForAddress',
+        [tokenMint, { limit: 1000, ...(before ? { before } : {}) }]
+      )
+
+      if (signatures.length === 0) return null
+
+      const oldest = signatures[signatures.length - 1]
+      if (signatures.length < 1000) return oldest.blockTime
+
+      before = oldest.signature
+    }
+  } catch (error) {
+    console.error(`[solana] Error finding creation time for ${tokenMint}:`, error)
+  }
+
+  return null
+}
+
+/**
+ * Decimals, and name/symbol when the mint has the Token-2022 metadata extension
+ */
+export async function getMintMetadata(rpcUrl: string, tokenMint: string): Promise<TokenMetadata | null> {
+  try {
+    const result = await rpcCall<{
+      value: {
+        data: {
+          parsed?: {
+            info: {
+              decimals: number
+              extensions?: Array<{ extension: string; state?: { name?: string; symbol?: string } }>
+            }
+          }
+        }
+      } | null
+    }>(rpcUrl, 'getAccountInfo', [tokenMint, { encoding: 'jsonParsed' }])
+
+    const info = result.value?.data.parsed?.info
+    if (!info) return null
+
+    const metadata = info.extensions?.find(e => e.extension === 'tokenMetadata')?.state
+    return {
+      symbol: metadata?.symbol || 'UNKNOWN',
+      name: metadata?.name || 'Unknown Token',
+      decimals: info.decimals,
+    }
+  } catch {
+    return null
+  }
+}
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111'
+
+interface RpcInstruction {
+  programId: string
+  parsed?: { type: string; info: Record<string, unknown> }
+}
+
+interface RpcTokenBalance {
+  mint: string
+  owner?: string
+  uiTokenAmount: { amount: string; decimals: number }
+}
+
+interface RpcTransaction {
+  blockTime: number | null
+  meta: {
+    err: unknown
+    preTokenBalances?: RpcTokenBalance[]
+    postTokenBalances?: RpcTokenBalance[]
+    innerInstructions?: Array<{ instructions: RpcInstruction[] }>
+  } | null
+  transaction: { message: { instructions: RpcInstruction[] } }
+}
+
+/**
+ * Turn a raw jsonParsed transaction into the Helius parsed shape
+ *
+ * Token transfers come from balance changes: per mint, every owner whose
+ * balance went up received from the owner whose balance dropped the most,
+ * and every other owner whose balance dropped sent to the owner whose
+ * balance went up the most (to nobody, e.g. a burn, if no balance went up).
+ * A transaction touching a swap program is a SWAP, anything else moving
+ * tokens or SOL is a TRANSFER.
+ */
+function toParsedTransaction(
+  signature: string,
+  tx: RpcTransaction,
+  swapPrograms: Set<string>
+): ParsedTransaction {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ]
+
+  // Per mint, per owner balance change in base units
+  const deltas = new Map<string, Map<string, bigint>>()
+  const decimals = new Map<string, number>()
+  const addBalances = (balances: RpcTokenBalance[] | undefined, sign: bigint) => {
+    for (const balance of balances ?? []) {
+      if (!balance.owner) continue
+      const byOwner = deltas.get(balance.mint) ?? new Map<string, bigint>()
+      byOwner.set(balance.owner, (byOwner.get(balance.owner) ?? BigInt(0)) + sign * BigInt(balance.uiTokenAmount.amount))
+      deltas.set(balance.mint, byOwner)
+      decimals.set(balance.mint, balance.uiTokenAmount.decimals)
+    }
+  }
+  addBalances(tx.meta?.preTokenBalances, BigInt(-1))
+  addBalances(tx.meta?.postTokenBalances, BigInt(1))
+
+  const tokenTransfers: TokenTransfer[] = []
+  for (const [mint, byOwner] of deltas) {
+    const unit = 10 ** (decimals.get(mint) ?? 0)
+    const changes = Array.from(byOwner).filter(([, delta]) => delta !== BigInt(0))
+    const senders = changes.filter(([, delta]) => delta < BigInt(0)).sort((a, b) => (a[1] < b[1] ? -1 : 1))
+    const receivers = changes.filter(([, delta]) => delta > BigInt(0)).sort((a, b) => (a[1] > b[1] ? -1 : 1))
+
+    for (const [owner, delta] of receivers) {
+      tokenTransfers.push({ mint, fromUserAccount: senders[0]?.[0] ?? '', toUserAccount: owner, tokenAmount: Number(delta) / unit })
+    }
+    for (const [owner, delta] of receivers.length > 0 ? senders.slice(1) : senders) {
+      tokenTransfers.push({ mint, fromUserAccount: owner, toUserAccount: receivers[0]?.[0] ?? '', tokenAmount: Number(-delta) / unit })
+    }
+  }
+
+  const nativeTransfers: NativeTransfer[] = instructions
+    .filter(ix => ix.programId === SYSTEM_PROGRAM_ID && ix.parsed?.type.startsWith('transfer'))
+    .map(ix => ({
+      fromUserAccount: String(ix.parsed?.info.source ?? ''),
+      toUserAccount: String(ix.parsed?.info.destination ?? ''),
+      amount: Number(ix.parsed?.info.lamports ?? 0),
+    }))
+
+  const isSwap = instructions.some(ix => swapPrograms.has(ix.programId))
+  const type = isSwap ? 'SWAP' : tokenTransfers.length > 0 || nativeTransfers.length > 0 ? 'TRANSFER' : 'UNKNOWN'
+
+  return { signature, timestamp: tx.blockTime ?? 0, type, tokenTransfers, nativeTransfers }
+}
+
+// Signatures per history page (same as the Helius history API)
+const HISTORY_PAGE_SIZE = 100
+// Parsed transactions kept by createTransactionCache
+const TRANSACTION_CACHE_SIZE = 10_000
+
+// Parsed transactions by signature (null for ones that moved nothing)
+export interface TransactionCache {
+  get(signature: string): ParsedTransaction | null | undefined
+  set(signature: string, tx: ParsedTransaction | null): void
+}
+
+/**
+ * Cache of the most recently used parsed transactions
+ * A transaction reads the same from every wallet it touches, so holders
+ * that traded with each other or shared an airdrop fetch it once.
+ */
+export function createTransactionCache(size: number = TRANSACTION_CACHE_SIZE): TransactionCache {
+  const entries = new Map<string, ParsedTransaction | null>()
+
+  return {
+    get(signature) {
+      const tx = entries.get(signature)
+      if (tx !== undefined) {
+        // Maps keep insertion order, so re-inserting marks it recently used
+        entries.delete(signature)
+        entries.set(signature, tx)
+      }
+      return tx
+    },
+    set(signature, tx) {
+      entries.delete(signature)
+      entries.set(signature, tx)
+      if (entries.size > size) entries.delete(entries.keys().next().value as string)
+    },
+  }
+}
+
+/**
+ * One page of a wallet's history (every type), newest first, built from
+ * plain RPC calls (getSignaturesForAddress + getTransaction)
+ * With `until`, stops at that signature (exclusive). Transactions already
+ * in `cache` aren't fetched again.
+ */
+export async function fetchParsedHistoryPage(
+  rpcUrl: string,
+  wallet: string,
+  before: string | undefined,
+  until: string | undefined,
+  swapPrograms: Set<string>,
+  cache: TransactionCache = createTransactionCache(0)
+): Promise<HistoryPage> {
+  const signatures = await rpcCall<Array<{ signature: string; err: unknown }>>(
+    rpcUrl,
+    'getSignaturesForAddress',
+    [wallet, { limit: HISTORY_PAGE_SIZE, ...(before ? { before } : {}), ...(until ? { until } : {}) }]
+  )
+
+  const transactions: ParsedTransaction[] = []
+
+  for (const { signature, err } of signatures) {
+    // Failed transactions moved nothing
+    if (err) continue
+
+    let parsed = cache.get(signature)
+    if (parsed === undefined) {
+      const tx = await rpcCall<RpcTransaction | null>(rpcUrl, 'getTransaction', [
+        signature,
+        { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+      ])
+      parsed = tx && !tx.meta?.err ? toParsedTransaction(signature, tx, swapPrograms) : null
+      cache.set(signature, parsed)
+    }
+
+    if (parsed) transactions.push(parsed)
+  }
+
+  const full = signatures.length === HISTORY_PAGE_SIZE
+  return { transactions, nextBefore: full ? signatures[signatures.length - 1].signature : undefined }
+}
@@ -0,0 +1,210 @@
+/**
+ * Holder data sources
+ *
+ * Everything the pipeline reads from outside - holder balances, token
+ * metadata and wallet history - goes through a HolderSource. Sources are
+ * tried in order, so the default [birdeye, helius, rpc] keeps Birdeye first
+ * with Helius as the fallback. The mock source replays a fixture file, so
+ * the whole pipeline can run offline (see lib/mock-source.ts).
+ */
+
+import { fetchAllHolders, getTokenOverview } from './birdeye'
+import { AMM_PROGRAMS } from './exclusions'
+import {
+  fetchAllHoldersHelius,
+  fetchHistoryPage,
+  getTokenMetadataHelius,
+  ParsedTransaction,
+} from './helius'
+import { mockSourceFromFile } from './mock-source'
+import {
+  createTransactionCache,
+  fetchHoldersAtSlot,
+  fetchParsedHistoryPage,
+  getCurrentSlot,
+  getMintCreationTime,
+  getMintMetadata,
+  heliusRpcUrl,
+} from './solana'
+
+export type SourceName = 'birdeye' | 'helius' | 'rpc' | 'mock'
+
+export const SOURCE_NAMES: SourceName[] = ['birdeye', 'helius', 'rpc', 'mock']
+
+export interface TokenHolder {
+  owner: string
+  // Raw base-unit amount as a decimal string
+  amount: string
+}
+
+export interface TokenMetadata {
+  symbol: string
+  name: string
+  decimals: number
+}
+
+export interface FetchReport {
+  // Every page was fetched - false means the holder list is cut short
+  complete: boolean
+  // Pages fetched by this call
+  pages: number
+  // Cursor of the next page, while incomplete
+  cursor?: string
+  // Why the fetch stopped early
+  error?: string
+  // Picked up from a saved cursor (see lib/holder-fetches.ts)
+  resumed?: boolean
+}
+
+// Receives each page of token accounts and the cursor of the page after it
+export type HolderPageHandler = (holders: TokenHolder[], cursor?: string) => Promise<void>
+
+export interface PagedFetch {
+  report: FetchReport
+  // Token accounts the source says exist, when it says
+  total?: number
+}
+
+export interface HolderFetch extends PagedFetch {
+  // Slot the balances were read at, when pinned
+  slot?: number
+  // Decimals reported alongside the balances (the chain is the source of truth)
+  decimals?: number
+}
+
+export interface FetchHoldersOptions {
+  pinToSlot?: boolean
+  // Continue a fetch that stopped early from this cursor
+  resumeFrom?: string
+}
+
+export interface HistoryPage {
+  transactions: ParsedTransaction[]
+  // Signature to continue from; absent when the history has ended
+  nextBefore?: string
+}
+
+export interface HolderSource {
+  name: SourceName
+  // Can read every balance at one recorded slot (required for snapshots)
+  pinsToSlot: boolean
+  // JSON-RPC endpoint, when the source has one (used for owner lookups)
+  rpcUrl?: string
+  // Streams one row per token account to onPage - a wallet can appear more than once
+  fetchHolders(tokenMint: string, onPage: HolderPageHandler, options?: FetchHoldersOptions): Promise<HolderFetch>
+  fetchMetadata(tokenMint: string): Promise<TokenMetadata | null>
+  // One page of a wallet's parsed history (every type), newest first, newer
+  // than `until` when given (absent when the source has no transaction history)
+  fetchHistory?(wallet: string, before?: string, until?: string): Promise<HistoryPage>
+  // Block time (unix seconds) of the mint's oldest transaction, if known
+  getMintCreationTime?(tokenMint: string): Promise<number | null>
+}
+
+/**
+ * Read all balances at the current slot in one call
+ */
+async function fetchPinned(rpcUrl: string, tokenMint: string, onPage: HolderPageHandler): Promise<HolderFetch> {
+  const slot = await getCurrentSlot(rpcUrl)
+  const { accounts, ...fetched } = await fetchHoldersAtSlot(rpcUrl, tokenMint, onPage, slot)
+  return { ...fetched, total: accounts, report: { complete: true, pages: 1 } }
+}
+
+/**
+ * Birdeye - holders and metadata only (holder list needs a paid tier)
+ */
+export function birdeyeSource(apiKey: string): HolderSource {
+  return {
+    name: 'birdeye',
+    pinsToSlot: false,
+    fetchHolders: (tokenMint, onPage, options = {}) => fetchAllHolders(tokenMint, apiKey, onPage, options.resumeFrom),
+    fetchMetadata: async tokenMint => {
+      const overview = await getTokenOverview(tokenMint, apiKey)
+      return overview && { symbol: overview.symbol, name: overview.name, decimals: overview.decimals }
+    },
+  }
+}
+
+/**
+ * Helius - DAS holder pages, slot-pinned RPC reads and enhanced history
+ */
+export function heliusSource(apiKey: string): HolderSource {
+  const rpcUrl = heliusRpcUrl(apiKey)
+
+  return {
+    name: 'helius',
+    pinsToSlot: true,
+    rpcUrl,
+    fetchHolders: (tokenMint, onPage, options = {}) => options.pinToSlot
+      ? fetchPinned(rpcUrl, tokenMint, onPage)
+      : fetchAllHoldersHelius(tokenMint, apiKey, onPage, options.resumeFrom),
+    fetchMetadata: tokenMint => getTokenMetadataHelius(tokenMint, apiKey),
+    fetchHistory: (wallet, before, until) => fetchHistoryPage(wallet, apiKey, before, until),
+    getMintCreationTime: tokenMint => getMintCreationTime(rpcUrl, tokenMint),
+  }
+}
+
+/**
+ * Any Solana JSON-RPC endpoint (including solana-test-validator) - balances
+ * are read at one slot with getProgramAccounts and decoded locally, and
+ * history is parsed from raw transactions (shared between the wallets the
+ * source scans)
+ */
+export function rpcSource(rpcUrl: string): HolderSource {
+  const swapPrograms = new Set(Object.keys(AMM_PROGRAMS))
+  const transactions = createTransactionCache()
+
+  return {
+    name: 'rpc',
+    pinsToSlot: true,
+    rpcUrl,
+    fetchHolders: (tokenMint, onPage) => fetchPinned(rpcUrl, tokenMint, onPage),
+    fetchMetadata: tokenMint => getMintMetadata(rpcUrl, tokenMint),
+    fetchHistory: (wallet, before, until) => fetchParsedHistoryPage(rpcUrl, wallet, before, until, swapPrograms, transactions),
+    getMintCreationTime: tokenMint => getMintCreationTime(rpcUrl, tokenMint),
+  }
+}
+
+/**
+ * Build sources from the environment, skipping any that aren't configured
+ * - birdeye: BIRDEYE_API_KEY
+ * - helius:  HELIUS_API_KEY
+ * - rpc:     SOLANA_RPC_URL
+ * - mock:    MOCK_FIXTURE (path to a fixture JSON file)
+ *
+ * The order comes from `names`, else HOLDER_SOURCES (comma-separated),
+ * else birdeye, helius, rpc. The mock source is only used when named.
+ */
+export function configuredSources(names?: SourceName[]): HolderSource[] {
+  const order = names
+    ?? (process.env.HOLDER_SOURCES?.split(',').map(s => s.trim()) as SourceName[] | undefined)
+    ?? ['birdeye', 'helius', 'rpc']
+
+  const sources: HolderSource[] = []
+
+  for (const name of order) {
+    if (name === 'birdeye' && process.env.BIRDEYE_API_KEY) {
+      sources.push(birdeyeSource(process.env.BIRDEYE_API_KEY))
+    } else if (name === 'helius' && process.env.HELIUS_API_KEY) {
+      sources.push(heliusSource(process.env.HELIUS_API_KEY))
+    } else if (name === 'rpc' && process.env.SOLANA_RPC_URL) {
+      sources.push(rpcSource(process.env.SOLANA_RPC_URL))
+    } else if (name === 'mock' && process.env.MOCK_FIXTURE) {
+      sources.push(mockSourceFromFile(process.env.MOCK_FIXTURE))
+    }
+  }
+
+  return sources
+}
+
+/**
+ * JSON-RPC endpoint for slot and block hash reads (draws): SOLANA_RPC_URL,
+ * else the first configured source that has one, else Helius
+ */
+export function configuredRpcUrl(): string | null {
+  if (process.env.SOLANA_RPC_URL) return process.env.SOLANA_RPC_URL
+
+  const fromSource = configuredSources().find(s => s.rpcUrl)?.rpcUrl
+  if (fromSource) return fromSource
+
+  return process.env.HELIUS_API_KEY ? heliusRpcUrl(process.env.HELIUS_API_KEY) : null
+}
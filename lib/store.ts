@@ -0,0 +1,172 @@
+/**
+ * File-backed JSON store
+ * Everything that has to survive a restart (snapshots, draws, ...) lives
+ * under DATA_DIR as one JSON file per record.
+ *
+ * NOTE: On Vercel only /tmp is writable - set BAGSLOTTO_DATA_DIR to a
+ * mounted volume for anything you need to keep between deploys.
+ */
+
+import { randomUUID } from 'crypto'
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { createInterface } from 'readline'
+
+export const DATA_DIR = process.env.BAGSLOTTO_DATA_DIR || path.join(process.cwd(), '.data')
+
+// Record ids become file names, so keep them to a safe character set
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+function recordPath(collection: string, id: string): string {
+  if (!ID_PATTERN.test(id)) {
+    throw new Error(`Invalid record id: ${id}`)
+  }
+  return path.join(DATA_DIR, collection, `${id}.json`)
+}
+
+/**
+ * Read a record, or null if it does not exist
+ */
+export async function readRecord<T>(collection: string, id: string): Promise<T | null> {
+  // An id that could never have been written can't exist
+  if (!ID_PATTERN.test(id)) return null
+
+  try {
+    const raw = await fs.readFile(recordPath(collection, id), 'utf8')
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Write a record atomically (write to temp file, then rename)
+ */
+export async function writeRecord(collection: string, id: string, data: unknown): Promise<void> {
+  const file = recordPath(collection, id)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+
+  // Unique per write - two writes to one record can land in the same millisecond
+  const tmpFile = `${file}.${randomUUID()}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(data, null, 2))
+  await fs.rename(tmpFile, file)
+}
+
+/**
+ * Create a record unless it already exists - of several concurrent creates
+ * exactly one returns true, and the others write nothing
+ */
+export async function createRecord(collection: string, id: string, data: unknown): Promise<boolean> {
+  const file = recordPath(collection, id)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+
+  // Written in full, then linked into place - link fails if the record exists
+  const tmpFile = `${file}.${randomUUID()}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(data, null, 2))
+  try {
+    await fs.link(tmpFile, file)
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+    throw error
+  } finally {
+    await fs.unlink(tmpFile)
+  }
+}
+
+/**
+ * List record ids in a collection
+ */
+export async function listRecords(collection: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(path.join(DATA_DIR, collection))
+    return files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.slice(0, -'.json'.length))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Delete a record (no-op if it does not exist)
+ */
+export async function deleteRecord(collection: string, id: string): Promise<void> {
+  try {
+    await fs.unlink(recordPath(collection, id))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw error
+  }
+}
+
+// =============================================================================
+// APPEND-ONLY LOGS
+// =============================================================================
+//
+// For data too large to rewrite as one record (e.g. holder lists): items are
+// appended as JSON lines to <collection>/<id>.jsonl and read back one at a time.
+
+function logPath(collection: string, id: string): string {
+  return recordPath(collection, id).replace(/\.json$/, '.jsonl')
+}
+
+/**
+ * Append items to a log, creating it if needed
+ * Returns the log's size in bytes afterwards, so callers can note how much
+ * of it they have committed (see truncateLog)
+ */
+export async function appendToLog(collection: string, id: string, items: unknown[]): Promise<number> {
+  const file = logPath(collection, id)
+  if (items.length > 0) {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.appendFile(file, items.map(item => JSON.stringify(item)).join('\n') + '\n')
+  }
+
+  try {
+    return (await fs.stat(file)).size
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw error
+  }
+}
+
+/**
+ * Cut a log back to `size` bytes, dropping anything appended after that
+ */
+export async function truncateLog(collection: string, id: string, size: number): Promise<void> {
+  try {
+    await fs.truncate(logPath(collection, id), size)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && size === 0) return
+    throw error
+  }
+}
+
+/**
+ * Call onItem for every item in a log, in order (a missing log has none)
+ */
+export async function readLog<T>(collection: string, id: string, onItem: (item: T) => void): Promise<void> {
+  const file = logPath(collection, id)
+  try {
+    await fs.access(file)
+  } catch {
+    return
+  }
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity })
+  for await (const line of lines) {
+    if (line) onItem(JSON.parse(line) as T)
+  }
+}
+
+export async function deleteLog(collection: string, id: string): Promise<void> {
+  try {
+    await fs.unlink(logPath(collection, id))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw error
+  }
+}
@@ -0,0 +1,242 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * bagslotto-verify - independently verify a published draw
+ *
+ * Usage:
+ *   npm run verify -- --snapshot <file|url> --slot <slot> --winner <wallet> [options]
+ *
+ * Options:
+ *   --snapshot <file|url>  Snapshot JSON (bare snapshot or GET /api/snapshots/:id response)
+ *   --slot <slot>          Slot whose block hash seeded the draw
+ *   --winner <wallet>      Claimed winning wallet (repeat in rank order for multi-winner draws)
+ *   --blockhash <hash>     Block hash (base58 or hex); fetched from --rpc if omitted
+ *   --rpc <url>            Solana RPC endpoint (default: public mainnet-beta)
+ *   --commitment <hex>     Announced snapshot commitment to check against
+ *   --tiers <json|file>    Prize tiers, e.g. '[{"label":"Grand","count":1},{"label":"Runner-up","count":5}]'
+ *   --removal <mode>       wallet (default) or ticket - how winners leave the pool between picks
+ *
+ * Exit codes: 0 = verified, 1 = mismatch, 2 = usage or fetch error
+ */
+
+import { promises as fs } from 'fs'
+import { parseArgs } from 'util'
+import {
+  buildMerkleRoot,
+  compareWallets,
+  decodeBlockHash,
+  LotteryEntry,
+  LotterySnapshot,
+  pickWinnersVerifiable,
+  pickWinnerVerifiable,
+  PrizeTier,
+  RemovalMode,
+  snapshotCommitment,
+  validatePrizeTiers,
+  verifyResult,
+  verifyWinners,
+  weeksHeld,
+} from '../lib/lottery'
+import { clusterCappedTickets, ticketsForAmount } from '../lib/rules'
+import { getFinalizedBlockHash } from '../lib/solana'
+
+const DEFAULT_RPC = 'https://api.mainnet-beta.solana.com'
+
+function usage(message: string): never {
+  console.error(`Error: ${message}`)
+  console.error('Usage: bagslotto-verify --snapshot <file|url> --slot <slot> --winner <wallet> [--blockhash <hash>] [--rpc <url>] [--commitment <hex>] [--tiers <json|file>] [--removal wallet|ticket]')
+  process.exit(2)
+}
+
+async function loadSnapshot(source: string): Promise<{ snapshot: LotterySnapshot; commitment?: string }> {
+  let raw: string
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch snapshot: ${response.status}`)
+    }
+    raw = await response.text()
+  } else {
+    raw = await fs.readFile(source, 'utf8')
+  }
+
+  const data = JSON.parse(raw)
+
+  // Accept either a bare snapshot or a stored record { id, commitment, snapshot }
+  if (data.snapshot) {
+    return { snapshot: data.snapshot, commitment: data.commitment }
+  }
+  return { snapshot: data }
+}
+
+async function loadTiers(source: string): Promise<PrizeTier[]> {
+  const raw = source.trim().startsWith('[') ? source : await fs.readFile(source, 'utf8')
+  const tiers = JSON.parse(raw)
+  const error = validatePrizeTiers(tiers)
+  if (error) usage(error)
+  return tiers
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      snapshot: { type: 'string' },
+      slot: { type: 'string' },
+      winner: { type: 'string', multiple: true },
+      blockhash: { type: 'string' },
+      rpc: { type: 'string', default: DEFAULT_RPC },
+      commitment: { type: 'string' },
+      tiers: { type: 'string' },
+      removal: { type: 'string', default: 'wallet' },
+    },
+  })
+
+  if (!values.snapshot) usage('--snapshot is required')
+  if (!values.slot) usage('--slot is required')
+  if (!values.winner?.length) usage('--winner is required')
+  if (values.removal !== 'wallet' && values.removal !== 'ticket') usage(`Invalid removal mode: ${values.removal}`)
+  if (!values.tiers && values.winner.length > 1) usage('--tiers is required when more than one --winner is given')
+
+  const slot = Number(values.slot)
+  if (!Number.isSafeInteger(slot) || slot < 0) usage(`Invalid slot: ${values.slot}`)
+
+  let failed = false
+  const check = (label: string, ok: boolean, detail: string) => {
+    console.log(`  [${ok ? 'OK' : 'FAIL'}] ${label}: ${detail}`)
+    if (!ok) failed = true
+  }
+
+  // Step 1: snapshot
+  console.log(`\n1. Snapshot (${values.snapshot})`)
+  const { snapshot, commitment: publishedCommitment } = await loadSnapshot(values.snapshot)
+  const ticketSum = snapshot.entries.reduce((sum, e) => sum + e.tickets, 0)
+  console.log(`  Token mint:   ${snapshot.tokenMint}`)
+  console.log(`  Taken at:     ${new Date(snapshot.snapshotTime).toISOString()}`)
+  if (snapshot.slot !== undefined) {
+    console.log(`  Balances at:  slot ${snapshot.slot}`)
+  }
+  console.log(`  Entries:      ${snapshot.entries.length}`)
+  if (snapshot.exclusions?.length) {
+    const reasons = Array.from(new Set(snapshot.exclusions.map(e => e.reason))).join(', ')
+    console.log(`  Excluded:     ${snapshot.exclusions.length} holders (${reasons})`)
+  }
+  check('Total tickets', ticketSum === snapshot.totalTickets, `${ticketSum} summed, ${snapshot.totalTickets} published`)
+  check('Total eligible', snapshot.entries.length === snapshot.totalEligible, `${snapshot.entries.length} counted, ${snapshot.totalEligible} published`)
+  const unordered = snapshot.entries.findIndex((e, i) => i > 0 && compareWallets(snapshot.entries[i - 1].wallet, e.wallet) >= 0)
+  check('Entry order', unordered === -1, unordered === -1
+    ? 'sorted by wallet (code unit order)'
+    : `${snapshot.entries[unordered].wallet} is out of order`)
+  if (snapshot.rules) {
+    const { rules, asOf } = snapshot
+    if (rules.holdingBonus) {
+      check('Holding time', asOf !== undefined, asOf !== undefined
+        ? `bonuses counted up to ${new Date(asOf * 1000).toISOString()}`
+        : 'the snapshot has no asOf to count holding weeks up to')
+    }
+
+    // Weeks held come from each entry's first acquisition and the snapshot's
+    // asOf, not from the published heldWeeks
+    const heldWeeks = (e: LotteryEntry) =>
+      rules.holdingBonus && e.firstAcquiredAt !== undefined && asOf !== undefined ? weeksHeld(e.firstAcquiredAt, asOf) : 0
+    const wrong = snapshot.entries.filter(e => {
+      const weeks = heldWeeks(e)
+      if (rules.holdingBonus && (e.heldWeeks ?? 0) !== weeks) return true
+
+      const tickets = ticketsForAmount(e.amount, snapshot.decimals, rules, weeks)
+      const expected = rules.clusterCap && e.clusterTickets !== undefined
+        ? clusterCappedTickets(tickets, e.clusterTickets, rules)
+        : tickets
+      return expected !== e.tickets
+    })
+    check('Ticket counts', wrong.length === 0, wrong.length === 0
+      ? `all ${snapshot.entries.length} match the published rules`
+      : `${wrong.length} entries don't match, e.g. ${wrong[0].wallet}`)
+
+    if (rules.clusterCap) {
+      const clusterTotals = new Map<string, number>()
+      for (const e of snapshot.entries) {
+        if (e.cluster) clusterTotals.set(e.cluster, (clusterTotals.get(e.cluster) ?? 0) + e.tickets)
+      }
+      const over = Array.from(clusterTotals).filter(([, total]) => total > rules.maxTickets)
+      check('Cluster caps', over.length === 0, over.length === 0
+        ? `${clusterTotals.size} clusters within ${rules.maxTickets} tickets each`
+        : `cluster ${over[0][0]} has ${over[0][1]} tickets`)
+    }
+  }
+
+  // Step 2: commitment and Merkle root
+  console.log('\n2. Commitment')
+  const commitment = snapshotCommitment(snapshot)
+  console.log(`  SHA-256(canonicalJSON(snapshot)) = ${commitment}`)
+  const expectedCommitment = values.commitment ?? publishedCommitment
+  if (expectedCommitment) {
+    check('Commitment', commitment === expectedCommitment.toLowerCase(), `announced ${expectedCommitment}`)
+  } else {
+    console.log('  (no announced commitment given - compare the value above with the announcement)')
+  }
+  if (snapshot.merkleRoot) {
+    const merkleRoot = buildMerkleRoot(snapshot.entries)
+    check('Merkle root', merkleRoot === snapshot.merkleRoot, merkleRoot)
+  }
+
+  // Step 3: block hash
+  console.log(`\n3. Block hash for slot ${slot}`)
+  let blockHash = values.blockhash
+  if (blockHash) {
+    console.log(`  Given:   ${blockHash}`)
+  } else {
+    console.log(`  Fetching from ${values.rpc}...`)
+    const block = await getFinalizedBlockHash(values.rpc as string, slot)
+    if (!block) {
+      throw new Error(`Slot ${slot} is not finalized yet`)
+    }
+    if (block.slot !== slot) {
+      check('Slot', false, `slot ${slot} was skipped, next block is ${block.slot}`)
+    }
+    blockHash = block.blockHash
+    console.log(`  Fetched: ${blockHash}`)
+  }
+  const seed = decodeBlockHash(blockHash)
+  console.log(`  Seed bytes (hex): ${Buffer.from(seed).toString('hex')}`)
+
+  // Step 4: winner, through the same code path as the live draw
+  console.log('\n4. Winner')
+  const result = pickWinnerVerifiable(snapshot.entries, blockHash, slot)
+  if (!result) {
+    throw new Error('Snapshot has no eligible entries')
+  }
+  console.log(`  Winning ticket: ${result.winningTicket} of ${result.totalTickets}`)
+  console.log(`  Calculated winner: ${result.winner.wallet} (${result.winner.tickets} tickets)`)
+
+  const verification = verifyResult(snapshot, blockHash, values.winner[0])
+  check('verifyResult agrees', verification.calculatedWinner === result.winner.wallet, `ticket ${verification.winningTicket}`)
+  check('Claimed winner', verification.valid, values.winner[0])
+
+  // Step 5: the rest of the winners list for multi-winner draws
+  if (values.tiers) {
+    const tiers = await loadTiers(values.tiers)
+    const removal = values.removal as RemovalMode
+    console.log(`\n5. Winners list (${removal} removal)`)
+    const multi = pickWinnersVerifiable(snapshot.entries, blockHash, slot, tiers, removal)
+    const calculated = multi?.winners ?? []
+    for (const w of calculated) {
+      console.log(`  #${w.rank} ${w.tier}: ${w.wallet} (ticket ${w.winningTicket} of ${w.poolTickets})`)
+    }
+
+    const listCheck = verifyWinners(snapshot, blockHash, tiers, values.winner, removal)
+    check('verifyWinners agrees', listCheck.calculatedWinners.every((w, i) => w.wallet === calculated[i]?.wallet), `${listCheck.calculatedWinners.length} winners`)
+    check('Claimed winners', listCheck.valid, listCheck.valid
+      ? `all ${values.winner.length} match`
+      : `ranks ${listCheck.mismatches.join(', ')} don't match`)
+  }
+
+  console.log(failed ? '\nRESULT: MISMATCH' : '\nRESULT: VERIFIED')
+  return failed ? 1 : 0
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(2)
+  })